@@ -0,0 +1,56 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+
+/**
+ * reach benchmarks - compares the reach index against the old
+ * bfs-per-user approach. run with `npm run bench`
+ */
+
+// deterministic random forest, each new user hangs off a random earlier one
+function buildNetwork(size: number): ReferralNetwork {
+  const network = new ReferralNetwork();
+  let state = 42;
+  const next = () => (state = (state * 48271) % 2147483647) / 2147483647;
+
+  for (let i = 1; i < size; i++) {
+    network.addReferral(`u${Math.floor(next() * i)}`, `u${i}`, { timestamp: i });
+  }
+  return network;
+}
+
+// what getTopReferrers used to do: a full bfs for every user
+function naiveTopReferrers(network: ReferralNetwork, k: number): number[] {
+  return network.getAllUsers()
+    .map(user => {
+      let count = 0;
+      const queue = [user];
+      while (queue.length > 0) {
+        for (const ref of network.getDirectRefs(queue.pop()!)) {
+          count++;
+          queue.push(ref);
+        }
+      }
+      return count;
+    })
+    .sort((a, b) => b - a)
+    .slice(0, k);
+}
+
+function time<T>(fn: () => T): [T, number] {
+  const start = process.hrtime.bigint();
+  const result = fn();
+  return [result, Number(process.hrtime.bigint() - start) / 1e6];
+}
+
+const fmt = (ms: number) => `${ms.toFixed(1)}ms`.padStart(10);
+
+console.log('users      build   top(20)  influencers(20)  naive top(20)');
+for (const size of [1000, 10000, 100000, 250000]) {
+  const [network, buildMs] = time(() => buildNetwork(size));
+  const [, topMs] = time(() => network.getTopReferrers(20));
+  const [, inflMs] = time(() => network.getUniqueReachInfluencers(20));
+
+  // O(V x avg reach) - fine on shallow trees, quadratic on deep ones
+  const naive = fmt(time(() => naiveTopReferrers(network, 20))[1]);
+
+  console.log(`${String(size).padEnd(8)}${fmt(buildMs)}${fmt(topMs)}${fmt(inflMs).padStart(17)}${naive.padStart(15)}`);
+}
@@ -0,0 +1,269 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+
+export type FraudFlagType = 'FAN_OUT_BURST' | 'LONG_CHAIN' | 'NO_HIRES' | 'REACH_OUTLIER' | 'SIMILAR_IDS';
+
+export interface FraudFlag {
+  type: FraudFlagType;
+  user: string; // who the flag is about
+  score: number; // 0..1, 0.5 = right at the threshold
+  explanation: string;
+  evidence: string[]; // related users (the burst, the chain, ...)
+}
+
+export interface FraudAnalyzerOptions {
+  detectors?: FraudFlagType[]; // default: all of them
+  burstWindowMs?: number; // default 10 minutes
+  burstSize?: number; // referrals inside one window to count as a burst (default 10)
+  chainLength?: number; // single-child hops in a row to count as a thin chain (default 8)
+  hiredUsers?: Iterable<string>; // NO_HIRES only runs when this is given
+  minReachForHires?: number; // only check subtrees at least this big (default 10)
+  outlierZ?: number; // robust z-score cutoff for reach (default 3.5)
+  similarIdGroup?: number; // near-identical candidate ids from one referrer (default 5)
+}
+
+const ALL_DETECTORS: FraudFlagType[] = ['FAN_OUT_BURST', 'LONG_CHAIN', 'NO_HIRES', 'REACH_OUTLIER', 'SIMILAR_IDS'];
+
+/**
+ * scans a ReferralNetwork for patterns we keep seeing in referral fraud:
+ * bot-style bursts, long thin chains, subtrees that never hire, reach way out
+ * of line with everyone else, and batches of candidate ids that only differ by digits
+ *
+ * bursts rely on edge timestamps, so networks loaded without real times will
+ * look like one giant burst - turn FAN_OUT_BURST off for those
+ */
+export class FraudAnalyzer {
+  private readonly opts: Required<Omit<FraudAnalyzerOptions, 'hiredUsers'>>;
+  private readonly hired: Set<string> | null;
+
+  constructor(private readonly network: ReferralNetwork, options: FraudAnalyzerOptions = {}) {
+    this.opts = {
+      detectors: options.detectors ?? ALL_DETECTORS,
+      burstWindowMs: options.burstWindowMs ?? 10 * 60 * 1000,
+      burstSize: options.burstSize ?? 10,
+      chainLength: options.chainLength ?? 8,
+      minReachForHires: options.minReachForHires ?? 10,
+      outlierZ: options.outlierZ ?? 3.5,
+      similarIdGroup: options.similarIdGroup ?? 5
+    };
+    this.hired = options.hiredUsers ? new Set(options.hiredUsers) : null;
+
+    for (const key of ['burstWindowMs', 'burstSize', 'chainLength', 'minReachForHires', 'outlierZ', 'similarIdGroup'] as const) {
+      if (!(this.opts[key] > 0)) {
+        throw new RangeError(`${key} must be positive, got ${this.opts[key]}`);
+      }
+    }
+  }
+
+  /**
+   * run every enabled detector, most suspicious first
+   */
+  analyze(): FraudFlag[] {
+    const enabled = new Set(this.opts.detectors);
+    const flags: FraudFlag[] = [];
+
+    if (enabled.has('FAN_OUT_BURST')) flags.push(...this.detectBursts());
+    if (enabled.has('LONG_CHAIN')) flags.push(...this.detectChains());
+    if (enabled.has('NO_HIRES') && this.hired) flags.push(...this.detectNoHires(this.hired));
+    if (enabled.has('REACH_OUTLIER')) flags.push(...this.detectReachOutliers());
+    if (enabled.has('SIMILAR_IDS')) flags.push(...this.detectSimilarIds());
+
+    return flags.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * sliding window over each referrer's referral times
+   */
+  private detectBursts(): FraudFlag[] {
+    const { burstWindowMs, burstSize } = this.opts;
+    const flags: FraudFlag[] = [];
+
+    for (const user of this.network.getAllUsers()) {
+      const refs = this.network.getDirectRefs(user);
+      if (refs.length < burstSize) continue;
+
+      const timed = refs
+        .map(ref => ({ ref, at: this.network.getReferralEdge(ref)!.timestamp }))
+        .sort((a, b) => a.at - b.at);
+
+      let best = { start: 0, end: 0 };
+      let start = 0;
+      for (let end = 0; end < timed.length; end++) {
+        while (timed[end].at - timed[start].at >= burstWindowMs) start++;
+        if (end - start > best.end - best.start) best = { start, end };
+      }
+
+      const count = best.end - best.start + 1;
+      if (count >= burstSize) {
+        const minutes = Math.round(burstWindowMs / 60000);
+        flags.push({
+          type: 'FAN_OUT_BURST',
+          user,
+          score: ramp(count, burstSize),
+          explanation: `${count} referrals within ${minutes} minutes (threshold ${burstSize})`,
+          evidence: timed.slice(best.start, best.end + 1).map(t => t.ref)
+        });
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * runs of people who each referred exactly one person
+   * flagged on the first person of the run
+   */
+  private detectChains(): FraudFlag[] {
+    const { chainLength } = this.opts;
+    const flags: FraudFlag[] = [];
+    const singleChild = (user: string) => this.network.getDirectRefs(user).length === 1;
+
+    for (const user of this.network.getAllUsers()) {
+      const parent = this.network.getReferrer(user);
+      // only start at the top of a run
+      if (!singleChild(user) || (parent !== null && singleChild(parent))) continue;
+
+      const chain = [user];
+      let curr = user;
+      while (singleChild(curr)) {
+        curr = this.network.getDirectRefs(curr)[0];
+        chain.push(curr);
+      }
+
+      const hops = chain.length - 1;
+      if (hops >= chainLength) {
+        flags.push({
+          type: 'LONG_CHAIN',
+          user,
+          score: ramp(hops, chainLength),
+          explanation: `chain of ${hops} single referrals in a row (threshold ${chainLength})`,
+          evidence: chain.slice(1)
+        });
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * big subtrees where nobody ever got hired
+   * only the topmost such user in each tree is flagged
+   */
+  private detectNoHires(hired: Set<string>): FraudFlag[] {
+    const { minReachForHires } = this.opts;
+    const flags: FraudFlag[] = [];
+
+    for (const root of this.network.getRoots()) {
+      // hires below each user, bottom-up over the bfs order
+      const order = this.network.getSubtree(root);
+      const hiresBelow = new Map<string, number>();
+      for (let i = order.length - 1; i >= 0; i--) {
+        let count = 0;
+        for (const ref of this.network.getDirectRefs(order[i])) {
+          count += hiresBelow.get(ref)! + (hired.has(ref) ? 1 : 0);
+        }
+        hiresBelow.set(order[i], count);
+      }
+
+      const stack = [root];
+      while (stack.length > 0) {
+        const user = stack.pop()!;
+        const reach = this.network.getTotalReach(user);
+        if (reach < minReachForHires) continue;
+
+        if (hiresBelow.get(user)! > 0) {
+          stack.push(...this.network.getDirectRefs(user));
+          continue;
+        }
+
+        flags.push({
+          type: 'NO_HIRES',
+          user,
+          score: ramp(reach, minReachForHires),
+          explanation: `${reach} downstream referrals and not a single hire`,
+          evidence: this.network.getFullReach(user)
+        });
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * robust z-score (median / MAD) of reach among everyone who referred anyone
+   * the distribution comes straight from getTopReferrers
+   */
+  private detectReachOutliers(): FraudFlag[] {
+    const ranked = this.network.getTopReferrers(this.network.getAllUsers().length)
+      .filter(r => r.totalReferrals > 0);
+    if (ranked.length < 3) return [];
+
+    const values = ranked.map(r => r.totalReferrals).sort((a, b) => a - b);
+    const median = middle(values);
+    const mad = middle(values.map(v => Math.abs(v - median)).sort((a, b) => a - b));
+
+    // MAD of 0 means most people are identical, fall back to the plain std dev
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    const zScore = (v: number) => (mad > 0 ? (0.6745 * (v - median)) / mad : std > 0 ? (v - mean) / std : 0);
+
+    const flags: FraudFlag[] = [];
+    for (const { user, totalReferrals } of ranked) {
+      const z = zScore(totalReferrals);
+      if (z < this.opts.outlierZ) break; // ranked is sorted, nobody further down qualifies
+
+      flags.push({
+        type: 'REACH_OUTLIER',
+        user,
+        score: ramp(z, this.opts.outlierZ),
+        explanation: `reach of ${totalReferrals} vs network median ${median} (z = ${z.toFixed(1)})`,
+        evidence: []
+      });
+    }
+
+    return flags;
+  }
+
+  /**
+   * candidate ids that collapse to the same pattern once digits are masked,
+   * e.g. user001, user002, user003 from one referrer
+   */
+  private detectSimilarIds(): FraudFlag[] {
+    const { similarIdGroup } = this.opts;
+    const flags: FraudFlag[] = [];
+
+    for (const user of this.network.getAllUsers()) {
+      const refs = this.network.getDirectRefs(user);
+      if (refs.length < similarIdGroup) continue;
+
+      const groups = new Map<string, string[]>();
+      for (const ref of refs) {
+        const pattern = ref.toLowerCase().replace(/\d+/g, '#');
+        if (!pattern.includes('#')) continue; // no digits, nothing to compare
+        groups.set(pattern, [...(groups.get(pattern) ?? []), ref]);
+      }
+
+      for (const [pattern, members] of groups) {
+        if (members.length < similarIdGroup) continue;
+        flags.push({
+          type: 'SIMILAR_IDS',
+          user,
+          score: ramp(members.length, similarIdGroup),
+          explanation: `${members.length} candidate ids matching "${pattern}"`,
+          evidence: members
+        });
+      }
+    }
+
+    return flags;
+  }
+}
+
+// 0.5 right at the threshold, 1 at double it
+function ramp(value: number, threshold: number): number {
+  return Math.min(1, 0.5 + (0.5 * (value - threshold)) / threshold);
+}
+
+function middle(sorted: number[]): number {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,179 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { MaxHeap } from '../utils/MaxHeap';
+import { createRng } from '../utils/random';
+
+export interface InfluenceOptions {
+  // chance a referral edge passes influence on (default 1 = always)
+  edgeProb?: number | ((referrer: string, candidate: string) => number);
+  // how much reaching a user is worth, e.g. seniority or hire value (default 1)
+  weight?: (user: string) => number;
+  simulations?: number; // monte carlo worlds (default 200, ignored when every edge is certain)
+  seed?: number;
+}
+
+export interface InfluenceSeed {
+  user: string;
+  marginalGain: number; // expected extra weight this seed adds
+}
+
+export interface InfluenceResult {
+  seeds: InfluenceSeed[];
+  expectedSpread: number;
+  evaluations: number; // how many gain computations CELF actually needed
+}
+
+const DEFAULT_SIMULATIONS = 200;
+
+/**
+ * influence maximization under the independent cascade model
+ *
+ * we sample live-edge worlds up front (each edge is live with its probability)
+ * and reuse them for every estimate, so gains are consistent between calls.
+ * spread counts users reached through at least one live edge from a seed -
+ * with every edge certain and unit weights that's exactly the unique reach
+ * getUniqueReachInfluencers maximizes
+ */
+export class InfluenceMaximizer {
+  constructor(private readonly network: ReferralNetwork) {}
+
+  /**
+   * pick k seeds with lazy greedy (CELF) - spread is submodular, so a
+   * stale gain is always an upper bound and most candidates never get rechecked
+   */
+  select(k: number, options: InfluenceOptions = {}): InfluenceResult {
+    const model = this.buildModel(options);
+    const covered = model.worlds.map(() => new Uint8Array(model.users.length));
+    const heap = new MaxHeap<{ node: number; round: number }>();
+    const seeds: InfluenceSeed[] = [];
+    let evaluations = 0;
+    let spread = 0;
+
+    for (let node = 0; node < model.users.length; node++) {
+      const gain = this.gain(model, covered, node);
+      evaluations++;
+      if (gain > 0) heap.push({ node, round: 0 }, gain);
+    }
+
+    while (seeds.length < k && heap.size > 0) {
+      const { item, priority } = heap.pop()!;
+
+      // gain is fresh for this round, nothing else can beat it
+      if (item.round === seeds.length) {
+        seeds.push({ user: model.users[item.node], marginalGain: priority });
+        spread += priority;
+        this.cover(model, covered, item.node);
+        continue;
+      }
+
+      const gain = this.gain(model, covered, item.node);
+      evaluations++;
+      if (gain > 0) heap.push({ node: item.node, round: seeds.length }, gain);
+    }
+
+    return { seeds, expectedSpread: spread, evaluations };
+  }
+
+  /**
+   * expected weight reached from a given seed set
+   */
+  estimateSpread(seeds: string[], options: InfluenceOptions = {}): number {
+    const model = this.buildModel(options);
+    const covered = model.worlds.map(() => new Uint8Array(model.users.length));
+    let spread = 0;
+
+    for (const seed of seeds) {
+      const node = model.index.get(seed);
+      if (node === undefined) continue;
+      spread += this.gain(model, covered, node);
+      this.cover(model, covered, node);
+    }
+
+    return spread;
+  }
+
+  private buildModel(options: InfluenceOptions): CascadeModel {
+    const users = this.network.getAllUsers();
+    const index = new Map(users.map((user, i) => [user, i]));
+    const children = users.map(user => this.network.getDirectRefs(user).map(ref => index.get(ref)!));
+    const weights = users.map(user => options.weight?.(user) ?? 1);
+
+    // prob of the edge into each node (roots have none)
+    const edgeProb = options.edgeProb ?? 1;
+    const probs = users.map(user => {
+      const referrer = this.network.getReferrer(user);
+      if (referrer === null) return 0;
+      const p = typeof edgeProb === 'number' ? edgeProb : edgeProb(referrer, user);
+      if (!(p >= 0 && p <= 1)) {
+        throw new RangeError(`edge probability must be in [0, 1], got ${p} for ${referrer} -> ${user}`);
+      }
+      return p;
+    });
+
+    // every edge certain -> one world is the whole story
+    const certain = probs.every((p, i) => p === 1 || this.network.getReferrer(users[i]) === null);
+    const simulations = certain ? 1 : options.simulations ?? DEFAULT_SIMULATIONS;
+    if (!Number.isInteger(simulations) || simulations < 1) {
+      throw new RangeError(`simulations must be a positive integer, got ${simulations}`);
+    }
+
+    const rng = createRng(options.seed ?? 1);
+    const worlds: Uint8Array[] = [];
+    for (let w = 0; w < simulations; w++) {
+      const live = new Uint8Array(users.length);
+      for (let i = 0; i < users.length; i++) {
+        live[i] = probs[i] > 0 && rng() < probs[i] ? 1 : 0;
+      }
+      worlds.push(live);
+    }
+
+    return { users, index, children, weights, worlds };
+  }
+
+  /**
+   * average extra weight a node would reach across the worlds
+   * anything already covered has its whole live subtree covered too, so prune there
+   */
+  private gain(model: CascadeModel, covered: Uint8Array[], node: number): number {
+    let total = 0;
+
+    model.worlds.forEach((live, w) => {
+      if (covered[w][node]) return; // seed's already inside someone's reach here
+
+      const stack = [node];
+      while (stack.length > 0) {
+        const curr = stack.pop()!;
+        for (const child of model.children[curr]) {
+          if (live[child] && !covered[w][child]) {
+            total += model.weights[child];
+            stack.push(child);
+          }
+        }
+      }
+    });
+
+    return total / model.worlds.length;
+  }
+
+  private cover(model: CascadeModel, covered: Uint8Array[], node: number): void {
+    model.worlds.forEach((live, w) => {
+      const stack = [node];
+      while (stack.length > 0) {
+        const curr = stack.pop()!;
+        for (const child of model.children[curr]) {
+          if (live[child] && !covered[w][child]) {
+            covered[w][child] = 1;
+            stack.push(child);
+          }
+        }
+      }
+    });
+  }
+}
+
+interface CascadeModel {
+  users: string[];
+  index: Map<string, number>;
+  children: number[][]; // by node index
+  weights: number[];
+  worlds: Uint8Array[]; // worlds[w][i] = is the edge into node i live
+}
@@ -0,0 +1,154 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+
+export interface NetworkStatsReport {
+  userCount: number;
+  edgeCount: number;
+  rootCount: number; // users nobody referred
+  treeCount: number; // separate referral trees (one per root)
+  maxDepth: number;
+  depthDistribution: number[]; // [depth] = users at that depth
+  outDegreeHistogram: number[]; // [n] = users with exactly n direct refs
+  averageBranchingFactor: number; // mean direct refs among people who referred anyone
+  reachGini: number; // 0 = everyone has the same reach, 1 = one person has all of it
+  largestSubtrees: Array<{ user: string; size: number }>; // biggest trees, size includes the root
+}
+
+export interface StatDelta {
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface NetworkStatsDiff {
+  userCount: StatDelta;
+  edgeCount: StatDelta;
+  rootCount: StatDelta;
+  treeCount: StatDelta;
+  maxDepth: StatDelta;
+  averageBranchingFactor: StatDelta;
+  reachGini: StatDelta;
+  depthDistribution: number[]; // after - before, per depth
+  outDegreeHistogram: number[]; // after - before, per degree
+  largestSubtrees: { entered: string[]; left: string[] }; // roots that moved in/out of the top list
+}
+
+export interface NetworkStatsOptions {
+  topSubtrees?: number; // how many of the largest trees to list (default 5)
+}
+
+/**
+ * whole-network numbers for dashboards. one pass over the users, using the
+ * O(1) depth/reach lookups, so everything is linear in the number of users
+ */
+export class NetworkStats {
+  static compute(network: ReferralNetwork, options: NetworkStatsOptions = {}): NetworkStatsReport {
+    const topSubtrees = options.topSubtrees ?? 5;
+    const users = network.getAllUsers();
+    const n = users.length;
+
+    const depthDistribution: number[] = [];
+    const outDegreeHistogram: number[] = [];
+    const reachCounts = new Array(n).fill(0); // counting sort for the gini
+    const roots: Array<{ user: string; size: number }> = [];
+    let edgeCount = 0;
+    let referrers = 0;
+
+    for (const user of users) {
+      const depth = network.getDepth(user);
+      depthDistribution[depth] = (depthDistribution[depth] ?? 0) + 1;
+
+      const degree = network.getDirectRefs(user).length;
+      outDegreeHistogram[degree] = (outDegreeHistogram[degree] ?? 0) + 1;
+      edgeCount += degree;
+      if (degree > 0) referrers++;
+
+      const reach = network.getTotalReach(user);
+      reachCounts[reach]++;
+
+      if (network.getReferrer(user) === null) {
+        roots.push({ user, size: reach + 1 });
+      }
+    }
+
+    return {
+      userCount: n,
+      edgeCount,
+      rootCount: roots.length,
+      treeCount: roots.length,
+      maxDepth: Math.max(0, depthDistribution.length - 1),
+      depthDistribution: fillHoles(depthDistribution),
+      outDegreeHistogram: fillHoles(outDegreeHistogram),
+      averageBranchingFactor: referrers > 0 ? edgeCount / referrers : 0,
+      reachGini: giniFromCounts(reachCounts),
+      largestSubtrees: roots.sort((a, b) => b.size - a.size).slice(0, topSubtrees)
+    };
+  }
+
+  /**
+   * what changed between two snapshots (networks or reports computed earlier)
+   */
+  static diff(
+    a: ReferralNetwork | NetworkStatsReport,
+    b: ReferralNetwork | NetworkStatsReport
+  ): NetworkStatsDiff {
+    const before = a instanceof ReferralNetwork ? NetworkStats.compute(a) : a;
+    const after = b instanceof ReferralNetwork ? NetworkStats.compute(b) : b;
+
+    const delta = (key: keyof NetworkStatsReport): StatDelta => {
+      const x = before[key] as number;
+      const y = after[key] as number;
+      return { before: x, after: y, change: y - x };
+    };
+
+    const beforeTop = new Set(before.largestSubtrees.map(s => s.user));
+    const afterTop = new Set(after.largestSubtrees.map(s => s.user));
+
+    return {
+      userCount: delta('userCount'),
+      edgeCount: delta('edgeCount'),
+      rootCount: delta('rootCount'),
+      treeCount: delta('treeCount'),
+      maxDepth: delta('maxDepth'),
+      averageBranchingFactor: delta('averageBranchingFactor'),
+      reachGini: delta('reachGini'),
+      depthDistribution: subtractArrays(after.depthDistribution, before.depthDistribution),
+      outDegreeHistogram: subtractArrays(after.outDegreeHistogram, before.outDegreeHistogram),
+      largestSubtrees: {
+        entered: [...afterTop].filter(user => !beforeTop.has(user)),
+        left: [...beforeTop].filter(user => !afterTop.has(user))
+      }
+    };
+  }
+}
+
+// sparse arrays -> zeros so dashboards can plot them as-is
+function fillHoles(values: number[]): number[] {
+  return Array.from(values, v => v ?? 0);
+}
+
+function subtractArrays(after: number[], before: number[]): number[] {
+  const len = Math.max(after.length, before.length);
+  return Array.from({ length: len }, (_, i) => (after[i] ?? 0) - (before[i] ?? 0));
+}
+
+/**
+ * gini over values given as counts[value] = how many users have it
+ * G = 2 * sum(i * x_i) / (n * sum(x)) - (n + 1) / n with x sorted ascending
+ */
+function giniFromCounts(counts: number[]): number {
+  let n = 0;
+  let total = 0;
+  let weighted = 0;
+
+  for (let value = 0; value < counts.length; value++) {
+    const c = counts[value];
+    if (c === 0) continue;
+    // ranks n+1 .. n+c all have this value
+    weighted += value * (c * n + (c * (c + 1)) / 2);
+    n += c;
+    total += value * c;
+  }
+
+  if (n === 0 || total === 0) return 0;
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
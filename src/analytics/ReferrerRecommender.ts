@@ -0,0 +1,272 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { AttributeValue, UserAttributes } from '../models/types';
+import { createRng } from '../utils/random';
+import { DAY_MS, toMillis } from '../utils/time';
+
+export interface RecommenderWeights {
+  attributes: number; // referrer shares the candidate's attributes
+  siblings: number; // referrer's past referrals look like the candidate
+  activity: number; // referrer refers a lot
+}
+
+export interface RecommenderOptions {
+  weights?: Partial<RecommenderWeights>; // default 1 / 2 / 0.5
+  halfLifeDays?: number; // how fast old referrals stop counting for predictNextReferrers (default 30)
+  newcomerWeight?: number; // being referred counts like this many referrals of your own (default 0.5)
+}
+
+export interface ReferrerSuggestion {
+  user: string;
+  score: number;
+  attributeMatch: number; // share of the candidate's attributes the referrer has too, 0-1
+  siblingMatch: number; // same, averaged over the referrer's direct referrals
+  activity: number; // direct referrals, log-scaled so the busiest referrer is 1
+}
+
+export interface ReferrerForecast {
+  user: string;
+  score: number; // decayed referrals, roughly "referrals per half-life lately"
+  lastActive: number; // epoch ms of their latest referral (or of joining)
+}
+
+export interface HoldoutOptions {
+  holdout?: number; // share of edges hidden from the model (default 0.2)
+  k?: number; // default 5
+  seed?: number; // which edges get picked for evaluateReferrers (default 1)
+}
+
+export interface PrecisionReport {
+  heldOut: number; // edges hidden from the model
+  k: number;
+  precisionAtK: number; // right answers / suggestions made
+  recallAtK: number; // right answers found / right answers there were
+}
+
+// what a referrer's direct referrals look like: key -> value -> how many
+interface ReferrerProfile {
+  refs: number;
+  values: Map<string, Map<AttributeValue, number>>;
+}
+
+const DEFAULT_WEIGHTS: RecommenderWeights = { attributes: 1, siblings: 2, activity: 0.5 };
+
+/**
+ * who probably knows a candidate that showed up without a referrer, and who's
+ * likely to refer next
+ *
+ * referrers are scored on three things: sharing the candidate's attributes,
+ * having already referred people like the candidate (their sibling set), and
+ * how much they refer at all. nobody in the candidate's own subtree is
+ * suggested, that referral would be a cycle
+ */
+export class ReferrerRecommender<A extends UserAttributes = UserAttributes> {
+  private readonly weights: RecommenderWeights;
+  private readonly halfLife: number;
+  private readonly newcomerWeight: number;
+
+  constructor(private readonly network: ReferralNetwork<A>, private readonly options: RecommenderOptions = {}) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+    for (const [name, weight] of Object.entries(this.weights)) {
+      if (!(weight >= 0) || !Number.isFinite(weight)) {
+        throw new RangeError(`${name} weight must be a non-negative number, got ${weight}`);
+      }
+    }
+
+    const halfLifeDays = options.halfLifeDays ?? 30;
+    if (!(halfLifeDays > 0) || !Number.isFinite(halfLifeDays)) {
+      throw new RangeError(`halfLifeDays must be a positive number, got ${halfLifeDays}`);
+    }
+    this.halfLife = halfLifeDays * DAY_MS;
+
+    this.newcomerWeight = options.newcomerWeight ?? 0.5;
+    if (!(this.newcomerWeight >= 0) || !Number.isFinite(this.newcomerWeight)) {
+      throw new RangeError(`newcomerWeight must be a non-negative number, got ${this.newcomerWeight}`);
+    }
+  }
+
+  /**
+   * top k likely referrers for the candidate, best first (ties by id)
+   * the candidate's stored attributes are used unless `attributes` is given,
+   * e.g. for someone who isn't in the network at all
+   */
+  recommendReferrers(candidate: string, k: number, attributes?: Partial<A>): ReferrerSuggestion[] {
+    return this.rank(candidate, k, attributes ?? this.network.getUserAttributes(candidate), this.profiles());
+  }
+
+  /**
+   * users most likely to make the next referral: their referrals decayed by
+   * age, plus a smaller bump for having just joined. `asOf` defaults to the
+   * newest referral in the network, so old data scores as of its own end
+   */
+  predictNextReferrers(k: number, asOf?: Date | number): ReferrerForecast[] {
+    const edges = this.network.toJSON().referrals;
+    const now = asOf === undefined
+      ? edges.reduce((latest, edge) => Math.max(latest, edge.timestamp), -Infinity)
+      : toMillis(asOf);
+    const scores = new Map<string, ReferrerForecast>();
+    const bump = (user: string, at: number, weight: number) => {
+      const entry = scores.get(user) ?? { user, score: 0, lastActive: at };
+      entry.score += weight * 0.5 ** ((now - at) / this.halfLife);
+      entry.lastActive = Math.max(entry.lastActive, at);
+      scores.set(user, entry);
+    };
+
+    for (const edge of edges) {
+      if (edge.timestamp > now) continue;
+      bump(edge.referrer, edge.timestamp, 1);
+      if (this.newcomerWeight > 0) bump(edge.candidate, edge.timestamp, this.newcomerWeight);
+    }
+
+    return Array.from(scores.values())
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.user.localeCompare(b.user))
+      .slice(0, k);
+  }
+
+  /**
+   * offline check of recommendReferrers: hide a random share of the edges,
+   * ask for each hidden candidate's referrer on what's left, and see whether
+   * the real one made the top k. with one right answer per candidate,
+   * recall@k is the hit rate
+   */
+  evaluateReferrers(options: HoldoutOptions = {}): PrecisionReport {
+    const { holdout, k } = this.holdoutOptions(options);
+    const rng = createRng(options.seed ?? 1);
+    const edges = this.network.toJSON().referrals;
+
+    // partial fisher-yates, the first `count` edges get hidden
+    const count = Math.round(edges.length * holdout);
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(rng() * (edges.length - i));
+      [edges[i], edges[j]] = [edges[j], edges[i]];
+    }
+    const hidden = edges.slice(0, count);
+    const trained = this.trainedOn(new Set(hidden.map(edge => edge.candidate)));
+    const profiles = trained.profiles();
+
+    let hits = 0;
+    for (const edge of hidden) {
+      const suggestions = trained.rank(edge.candidate, k, trained.network.getUserAttributes(edge.candidate), profiles);
+      if (suggestions.some(s => s.user === edge.referrer)) hits++;
+    }
+
+    return {
+      heldOut: count,
+      k,
+      precisionAtK: count === 0 ? 0 : hits / (count * k),
+      recallAtK: count === 0 ? 0 : hits / count
+    };
+  }
+
+  /**
+   * offline check of predictNextReferrers: hide the newest share of the edges,
+   * predict k referrers as of the last edge left, and compare with who
+   * actually referred in the hidden part
+   */
+  evaluateNextReferrers(options: HoldoutOptions = {}): PrecisionReport {
+    const { holdout, k } = this.holdoutOptions(options);
+    const edges = this.network.toJSON().referrals; // oldest first
+    const count = Math.round(edges.length * holdout);
+    const hidden = edges.slice(edges.length - count);
+    const trained = this.trainedOn(new Set(hidden.map(edge => edge.candidate)));
+
+    const actual = new Set(hidden.map(edge => edge.referrer));
+    const predicted = trained.predictNextReferrers(k);
+    const hits = predicted.filter(forecast => actual.has(forecast.user)).length;
+
+    return {
+      heldOut: count,
+      k,
+      precisionAtK: hits / k,
+      recallAtK: actual.size === 0 ? 0 : hits / actual.size
+    };
+  }
+
+  private rank(
+    candidate: string,
+    k: number,
+    attributes: Partial<A>,
+    profiles: Map<string, ReferrerProfile>
+  ): ReferrerSuggestion[] {
+    const wanted = Object.entries(attributes).filter(([, value]) => value !== undefined) as Array<[string, AttributeValue]>;
+    // anyone below the candidate would close a loop
+    const excluded = new Set([candidate, ...this.network.getFullReach(candidate)]);
+    let maxRefs = 0;
+    for (const profile of profiles.values()) maxRefs = Math.max(maxRefs, profile.refs);
+
+    const suggestions: ReferrerSuggestion[] = [];
+    // attribute-only people count too, a directory entry can still know the candidate
+    for (const user of this.network.getKnownUsers()) {
+      if (excluded.has(user)) continue;
+
+      const own = this.network.getUserAttributes(user) as UserAttributes;
+      const profile = profiles.get(user);
+      const attributeMatch = wanted.length === 0
+        ? 0
+        : wanted.filter(([key, value]) => own[key] === value).length / wanted.length;
+      const siblingMatch = wanted.length === 0 || !profile
+        ? 0
+        : wanted.reduce((sum, [key, value]) => sum + (profile.values.get(key)?.get(value) ?? 0) / profile.refs, 0) / wanted.length;
+      const activity = profile && maxRefs > 0 ? Math.log1p(profile.refs) / Math.log1p(maxRefs) : 0;
+
+      const score = this.weights.attributes * attributeMatch +
+        this.weights.siblings * siblingMatch +
+        this.weights.activity * activity;
+      if (score > 0) {
+        suggestions.push({ user, score, attributeMatch, siblingMatch, activity });
+      }
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || a.user.localeCompare(b.user))
+      .slice(0, k);
+  }
+
+  /**
+   * attribute counts over each referrer's direct referrals, one pass over the edges
+   */
+  private profiles(): Map<string, ReferrerProfile> {
+    const profiles = new Map<string, ReferrerProfile>();
+
+    for (const user of this.network.getAllUsers()) {
+      const refs = this.network.getDirectRefs(user);
+      if (refs.length === 0) continue;
+
+      const values = new Map<string, Map<AttributeValue, number>>();
+      for (const ref of refs) {
+        for (const [key, value] of Object.entries(this.network.getUserAttributes(ref) as UserAttributes)) {
+          if (!values.has(key)) values.set(key, new Map());
+          const counts = values.get(key)!;
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+      }
+      profiles.set(user, { refs: refs.length, values });
+    }
+
+    return profiles;
+  }
+
+  /**
+   * same settings on a copy of the network without the hidden candidates' edges
+   */
+  private trainedOn(hiddenCandidates: Set<string>): ReferrerRecommender<A> {
+    const json = this.network.toJSON();
+    const training = ReferralNetwork.fromJSON<A>({
+      ...json,
+      referrals: json.referrals.filter(edge => !hiddenCandidates.has(edge.candidate))
+    });
+    return new ReferrerRecommender(training, this.options);
+  }
+
+  private holdoutOptions(options: HoldoutOptions): { holdout: number; k: number } {
+    const holdout = options.holdout ?? 0.2;
+    const k = options.k ?? 5;
+    if (!(holdout > 0 && holdout < 1)) {
+      throw new RangeError(`holdout must be in (0, 1), got ${holdout}`);
+    }
+    if (!Number.isInteger(k) || k < 1) {
+      throw new RangeError(`k must be a positive integer, got ${k}`);
+    }
+    return { holdout, k };
+  }
+}
@@ -0,0 +1,143 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { AttributeValue, UserAttributes } from '../models/types';
+
+// a value of the attribute being grouped on, null for users who don't have it
+export type Segment = AttributeValue | null;
+
+export interface SegmentRollup {
+  segment: Segment;
+  users: number; // everyone with the value, plus untagged graph users for null
+  referrers: number; // members who referred at least one person
+  directReferrals: number;
+  hired: number; // direct referrals that got hired
+  reach: number; // people anywhere below a member, counted once
+}
+
+/**
+ * who brings in whom across segments - segments[i] referring segments[j]
+ */
+export interface SegmentFlow {
+  segments: Segment[];
+  referrals: number[][]; // [i][j] = referrals from segment i referrers to segment j candidates
+  referrers: number[][]; // [i][j] = segment i referrers with at least one segment j referral
+}
+
+/**
+ * rollups of the network grouped by a user attribute (department, region,
+ * channel...). reach numbers come off the network's reach index, so a rollup
+ * is one pass over the users plus a walk up each member's referrer chain
+ */
+export class SegmentAnalytics<A extends UserAttributes = UserAttributes> {
+  constructor(private readonly network: ReferralNetwork<A>) {}
+
+  /**
+   * the user's value for key, null if they don't have one
+   */
+  segmentOf<K extends keyof A & string>(user: string, key: K): A[K] | null {
+    return this.network.getUserAttributes(user)[key] ?? null;
+  }
+
+  /**
+   * everyone in the segment - null means graph users without the attribute
+   */
+  getMembers<K extends keyof A & string>(key: K, segment: A[K] | null): string[] {
+    if (segment !== null) {
+      return this.network.getUsersWithAttribute(key, segment);
+    }
+    return this.network.getAllUsers().filter(user => this.segmentOf(user, key) === null);
+  }
+
+  /**
+   * one row per segment, most reach first
+   */
+  getRollups<K extends keyof A & string>(key: K): SegmentRollup[] {
+    const groups = new Map<Segment, string[]>();
+    for (const user of this.network.getKnownUsers()) {
+      const segment = this.segmentOf(user, key);
+      if (!groups.has(segment)) groups.set(segment, []);
+      groups.get(segment)!.push(user);
+    }
+
+    return Array.from(groups, ([segment, members]) => this.rollup(segment, members))
+      .sort((a, b) => b.reach - a.reach || b.users - a.users);
+  }
+
+  /**
+   * segment members ranked by total reach (which counts everyone below them,
+   * whatever their segment)
+   */
+  getTopReferrers<K extends keyof A & string>(
+    key: K,
+    segment: A[K] | null,
+    k: number
+  ): Array<{ user: string; totalReferrals: number }> {
+    return this.getMembers(key, segment)
+      .map(user => ({ user, totalReferrals: this.network.getTotalReach(user) }))
+      .filter(entry => entry.totalReferrals > 0)
+      .sort((a, b) => b.totalReferrals - a.totalReferrals)
+      .slice(0, k);
+  }
+
+  /**
+   * referral counts between every pair of segments, one pass over the edges
+   * segments come out sorted, users without the attribute last
+   */
+  getReferralFlow<K extends keyof A & string>(key: K): SegmentFlow {
+    const segments = Array.from(new Set(this.network.getKnownUsers().map(user => this.segmentOf(user, key) as Segment)))
+      .sort(compareSegments);
+    const index = new Map(segments.map((segment, i) => [segment, i]));
+    const referrals = segments.map(() => new Array(segments.length).fill(0));
+    const referrers = segments.map(() => new Array(segments.length).fill(0));
+
+    for (const referrer of this.network.getAllUsers()) {
+      const refs = this.network.getDirectRefs(referrer);
+      if (refs.length === 0) continue;
+
+      const from = index.get(this.segmentOf(referrer, key))!;
+      const reached = new Set<number>();
+      for (const candidate of refs) {
+        const to = index.get(this.segmentOf(candidate, key))!;
+        referrals[from][to]++;
+        reached.add(to);
+      }
+      for (const to of reached) referrers[from][to]++;
+    }
+
+    return { segments, referrals, referrers };
+  }
+
+  /**
+   * getUniqueReachInfluencers picking only from one segment
+   */
+  getUniqueReachInfluencers<K extends keyof A & string>(
+    key: K,
+    segment: A[K] | null,
+    k: number
+  ): Array<{ user: string; newReachAdded: number }> {
+    return this.network.getUniqueReachInfluencers(k, this.getMembers(key, segment));
+  }
+
+  private rollup(segment: Segment, members: string[]): SegmentRollup {
+    const memberSet = new Set(members);
+    const row: SegmentRollup = { segment, users: members.length, referrers: 0, directReferrals: 0, hired: 0, reach: 0 };
+
+    for (const user of members) {
+      const refs = this.network.getDirectRefs(user);
+      if (refs.length > 0) row.referrers++;
+      row.directReferrals += refs.length;
+      row.hired += refs.filter(ref => this.network.getCandidateStatus(ref) === 'hired').length;
+
+      // a member below another member is already inside that member's reach
+      if (!this.network.getReferralChain(user).some(above => memberSet.has(above))) {
+        row.reach += this.network.getTotalReach(user);
+      }
+    }
+
+    return row;
+  }
+}
+
+function compareSegments(a: Segment, b: Segment): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return String(a).localeCompare(String(b));
+}
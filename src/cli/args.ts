@@ -0,0 +1,95 @@
+/**
+ * bad command line - the cli prints usage and exits 2 for these,
+ * anything else that goes wrong exits 1
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface ParsedArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Map<string, string | true>; // --flag value, --flag=value, or bare --flag
+}
+
+/**
+ * tiny argv parser, just enough for our subcommands
+ * a flag followed by something that isn't another flag takes it as its value
+ */
+export function parseArgs(argv: string[], booleanFlags: ReadonlySet<string> = new Set()): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (!booleanFlags.has(name) && next !== undefined && !next.startsWith('--')) {
+      flags.set(name, next);
+      i++;
+    } else {
+      flags.set(name, true);
+    }
+  }
+
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, flags };
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  if (value === true) {
+    throw new UsageError(`--${name} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * numeric flag with optional default and bounds, UsageError on anything off
+ */
+export function numberFlag(
+  args: ParsedArgs,
+  name: string,
+  // above is an exclusive lower bound, for ranges like (0, 1]
+  options: { default?: number; integer?: boolean; min?: number; above?: number; max?: number } = {}
+): number {
+  const raw = stringFlag(args, name);
+  if (raw === undefined) {
+    if (options.default === undefined) {
+      throw new UsageError(`missing required --${name}`);
+    }
+    return options.default;
+  }
+
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    throw new UsageError(`--${name} must be a number, got "${raw}"`);
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    throw new UsageError(`--${name} must be a whole number, got ${raw}`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new UsageError(`--${name} must be >= ${options.min}, got ${raw}`);
+  }
+  if (options.above !== undefined && !(value > options.above)) {
+    throw new UsageError(`--${name} must be > ${options.above}, got ${raw}`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new UsageError(`--${name} must be <= ${options.max}, got ${raw}`);
+  }
+  return value;
+}
@@ -0,0 +1,389 @@
+import { createReadStream, existsSync, readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { ReferralEdge, ReferralNetworkJSON } from '../models/types';
+import { importCSVStream, parseTimestamp, RejectedRow } from '../io/csv';
+import { NetworkSimulation, TargetCriterion } from '../simulation/NetworkSimulation';
+import { createAdoptionCurve, parseAdoptionSpec } from '../simulation/adoption';
+import { numberFlag, parseArgs, ParsedArgs, stringFlag, UsageError } from './args';
+import { formatJSON, formatTable, OutputFormat } from './format';
+import { ApiServer } from '../server/ApiServer';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+interface CommandOutput {
+  json: unknown;
+  table: string;
+}
+
+interface Command {
+  usage: string;
+  flags: string[]; // on top of the shared --output / --help
+  run: (args: ParsedArgs, io: CliIO) => CommandOutput | Promise<CommandOutput>;
+}
+
+const DEFAULT_NETWORK_FILE = 'refnet.json';
+const BOOLEAN_FLAGS = new Set(['help', 'normalized']);
+const SIM_FLAGS = ['starting-referrers', 'max-refs'];
+const TARGET_FLAGS = [...SIM_FLAGS, 'conversion-rate', 'confidence', 'trials', 'seed'];
+
+const COMMANDS: Record<string, Command> = {
+  import: {
+    usage: 'import <file> [--format csv|json]   add a csv or json edge list to the network file',
+    flags: ['network', 'format'],
+    run: importCommand
+  },
+  top: {
+    usage: 'top [--k 10]                        biggest total reach',
+    flags: ['network', 'k'],
+    run: args => {
+      const rows = loadNetwork(args).getTopReferrers(numberFlag(args, 'k', { default: 10, integer: true, min: 1 }));
+      return ranked(rows, ['user', 'reach'], r => [r.user, r.totalReferrals]);
+    }
+  },
+  influencers: {
+    usage: 'influencers [--k 10]                picks that cover the most unique people',
+    flags: ['network', 'k'],
+    run: args => {
+      const k = numberFlag(args, 'k', { default: 10, integer: true, min: 1 });
+      const rows = loadNetwork(args).getUniqueReachInfluencers(k);
+      return ranked(rows, ['user', 'new reach'], r => [r.user, r.newReachAdded]);
+    }
+  },
+  centrality: {
+    usage: 'centrality [--k 10] [--normalized]  flow centrality ranking',
+    flags: ['network', 'k', 'normalized'],
+    run: args => {
+      const k = numberFlag(args, 'k', { default: 10, integer: true, min: 1 });
+      const rows = loadNetwork(args)
+        .getFlowCentralityRanking({ normalized: args.flags.has('normalized') })
+        .slice(0, k);
+      return ranked(rows, ['user', 'score'], r => [r.user, r.centralityScore]);
+    }
+  },
+  reach: {
+    usage: 'reach <user>                        one user\'s referrer, direct refs and reach',
+    flags: ['network'],
+    run: args => {
+      const user = args.positionals[0];
+      if (user === undefined) throw new UsageError('reach needs a user');
+      const network = loadNetwork(args);
+      if (!network.hasUser(user)) throw new Error(`unknown user: ${user}`);
+
+      const info = {
+        user,
+        referrer: network.getReferrer(user),
+        depth: network.getDepth(user),
+        directRefs: network.getDirectRefs(user).length,
+        totalReach: network.getTotalReach(user)
+      };
+      return {
+        json: info,
+        table: formatTable(['field', 'value'], Object.entries(info).map(([key, value]) => [key, value ?? '-']))
+      };
+    }
+  },
+  simulate: {
+    usage: 'simulate --prob P --days D          expected cumulative referrals per day',
+    flags: ['prob', 'days', ...SIM_FLAGS],
+    run: args => {
+      const prob = numberFlag(args, 'prob', { min: 0, max: 1 });
+      const days = numberFlag(args, 'days', { integer: true, min: 1 });
+      const daily = buildSimulation(args).simulate(prob, days).map((total, i) => ({ day: i + 1, total }));
+      return { json: daily, table: formatTable(['day', 'total'], daily.map(d => [d.day, d.total])) };
+    }
+  },
+  'days-to-target': {
+    usage: 'days-to-target --prob P --target N  days until N hires (--confidence C for a probability)',
+    flags: ['prob', 'target', ...TARGET_FLAGS],
+    run: args => {
+      const prob = numberFlag(args, 'prob', { min: 0, max: 1 });
+      const target = numberFlag(args, 'target', { min: 0 });
+      const days = buildSimulation(args).daysToTarget(prob, target, criterionFrom(args));
+      return answer('days', days === -1 ? null : days);
+    }
+  },
+  'min-bonus': {
+    usage: 'min-bonus --days D --target N --adoption SPEC   cheapest bonus that hits the target',
+    flags: ['days', 'target', 'adoption', ...TARGET_FLAGS],
+    run: args => {
+      const days = numberFlag(args, 'days', { integer: true, min: 1 });
+      const target = numberFlag(args, 'target', { min: 0 });
+      const spec = stringFlag(args, 'adoption');
+      if (spec === undefined) throw new UsageError('missing required --adoption');
+
+      let curve;
+      try {
+        curve = createAdoptionCurve(parseAdoptionSpec(spec));
+      } catch (err) {
+        throw new UsageError(`--adoption: ${(err as Error).message}`);
+      }
+      return answer('bonus', buildSimulation(args).minBonusForTarget(days, target, curve, 1e-3, criterionFrom(args)));
+    }
+  },
+  serve: {
+    usage: 'serve [--port 3000] [--host H]      HTTP/JSON API over the network file (changes stay in memory)',
+    flags: ['network', 'port', 'host'],
+    run: serveCommand
+  }
+};
+
+const USAGE = [
+  'usage: refnet <command> [options]',
+  '',
+  'commands:',
+  ...Object.values(COMMANDS).map(cmd => `  ${cmd.usage}`),
+  '',
+  'options:',
+  `  --network FILE         network file the network commands use (default ${DEFAULT_NETWORK_FILE})`,
+  '  --output table|json    output format (default table)',
+  '  --starting-referrers N, --max-refs N    simulation setup',
+  '  --conversion-rate R    share of referrals that get hired, for days-to-target / min-bonus (default 1)',
+  '  --confidence C, --trials N, --seed S    stochastic target for days-to-target / min-bonus',
+  '',
+  'adoption curves:',
+  '  linear:slope=0.00005,max=0.1',
+  '  step:threshold=500,high=0.08,low=0.01',
+  '  logistic:max=0.1,midpoint=1000,steepness=0.005',
+  '  power:scale=0.002,exponent=0.5,max=0.1',
+  '  points:0=0,500=0.03,2000=0.1',
+  ''
+].join('\n');
+
+/**
+ * run one command, returns the exit code
+ * 0 ok, 1 something went wrong, 2 bad command line
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    const args = parseArgs(argv, BOOLEAN_FLAGS);
+    if (args.command === undefined || args.command === 'help' || args.flags.has('help')) {
+      (args.command === undefined ? io.stderr : io.stdout)(USAGE);
+      return args.command === undefined ? 2 : 0;
+    }
+
+    const command = COMMANDS[args.command];
+    if (!command) {
+      throw new UsageError(`unknown command "${args.command}"`);
+    }
+    for (const flag of args.flags.keys()) {
+      if (flag !== 'output' && !command.flags.includes(flag)) {
+        throw new UsageError(`unknown option --${flag} for ${args.command}`);
+      }
+    }
+
+    const output = outputFormat(args);
+    const result = await command.run(args, io);
+    io.stdout(output === 'json' ? formatJSON(result.json) : result.table);
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError) {
+      io.stderr(`error: ${err.message}\nrun "refnet help" for usage\n`);
+      return 2;
+    }
+    io.stderr(`error: ${(err as Error).message}\n`);
+    return 1;
+  }
+}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text)
+};
+
+async function importCommand(args: ParsedArgs): Promise<CommandOutput> {
+  const file = args.positionals[0];
+  if (file === undefined) throw new UsageError('import needs a file');
+  if (!existsSync(file)) throw new Error(`no such file: ${file}`);
+
+  const format = stringFlag(args, 'format') ?? extname(file).slice(1).toLowerCase();
+  if (format !== 'csv' && format !== 'json') {
+    throw new UsageError(`can't tell the format of ${file}, pass --format csv or --format json`);
+  }
+
+  const networkFile = networkPath(args);
+  const network = existsSync(networkFile) ? loadNetwork(args) : new ReferralNetwork();
+
+  let imported: number;
+  let rejected: RejectedRow[];
+  let rejectedCount: number;
+  if (format === 'csv') {
+    const report = await importCSVStream(createReadStream(file), { network });
+    ({ imported, rejected, rejectedCount } = report);
+  } else {
+    ({ imported, rejected } = importJson(network, file));
+    rejectedCount = rejected.length;
+  }
+
+  writeFileSync(networkFile, JSON.stringify(network.toJSON()));
+
+  const summary = { network: networkFile, imported, rejectedCount, users: network.getAllUsers().length, rejected };
+  const lines = [`imported ${imported} referrals into ${networkFile} (${summary.users} users)`];
+  if (rejectedCount > 0) {
+    lines.push(`rejected ${rejectedCount}:`);
+    lines.push(formatTable(
+      ['line', 'referrer', 'candidate', 'reason'],
+      rejected.map(r => [r.line, r.referrer ?? '', r.candidate ?? '', r.reason.status])
+    ).trimEnd());
+  }
+  return { json: summary, table: lines.join('\n') + '\n' };
+}
+
+/**
+ * runs until ctrl-c / SIGTERM
+ */
+async function serveCommand(args: ParsedArgs, io: CliIO): Promise<CommandOutput> {
+  const port = numberFlag(args, 'port', { default: 3000, integer: true, min: 0, max: 65535 });
+  const host = stringFlag(args, 'host') ?? '127.0.0.1';
+  const network = existsSync(networkPath(args)) ? loadNetwork(args) : new ReferralNetwork();
+
+  const server = new ApiServer({ network });
+  const actualPort = await server.listen(port, host);
+  io.stdout(`listening on http://${host}:${actualPort} (${network.getAllUsers().length} users)\n`);
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await server.close();
+  return { json: { stopped: true }, table: 'stopped\n' };
+}
+
+/**
+ * either a bare array of { referrer, candidate, timestamp?, metadata? } or a
+ * saved network ({ version, referrals, users? }). a saved network is loaded
+ * with fromJSON first, so its pipeline statuses and attributes come along
+ */
+function importJson(network: ReferralNetwork, file: string): { imported: number; rejected: RejectedRow[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`${file} is not valid JSON: ${(err as Error).message}`);
+  }
+
+  if (Array.isArray(parsed)) {
+    return addEdges(network, parsed.map((edge, i) => {
+      if (typeof edge?.referrer !== 'string' || typeof edge?.candidate !== 'string') {
+        throw new Error(`entry #${i} in ${file} needs string referrer and candidate`);
+      }
+      // a bare list has no pipeline to replay
+      return { referrer: edge.referrer, candidate: edge.candidate, timestamp: edge.timestamp, metadata: edge.metadata };
+    }));
+  }
+  if (!Array.isArray((parsed as { referrals?: unknown })?.referrals)) {
+    throw new Error(`${file} should hold an array of { referrer, candidate } or a saved network`);
+  }
+
+  let saved: ReferralNetwork;
+  try {
+    saved = ReferralNetwork.fromJSON(parsed as ReferralNetworkJSON);
+  } catch (err) {
+    throw new Error(`${file} is not a valid saved network: ${(err as Error).message}`);
+  }
+  const { referrals, users } = saved.toJSON();
+  const report = addEdges(network, referrals);
+  for (const [user, attributes] of Object.entries(users ?? {})) {
+    network.setUserAttributes(user, attributes);
+  }
+  return report;
+}
+
+/**
+ * one edge at a time so a bad row is reported instead of failing the import
+ * timestamps get the same parsing as csv (epoch ms or a date string)
+ */
+function addEdges(network: ReferralNetwork, edges: ReferralEdge[]): { imported: number; rejected: RejectedRow[] } {
+  let imported = 0;
+  const rejected: RejectedRow[] = [];
+
+  edges.forEach((edge, i) => {
+    const { referrer, candidate } = edge;
+    const line = i + 1; // position in the list for json
+    const raw: unknown = edge.timestamp;
+
+    // missing means now, like an empty csv column
+    const timestamp = raw === undefined || raw === null
+      ? undefined
+      : typeof raw === 'number' ? raw : typeof raw === 'string' ? parseTimestamp(raw) : NaN;
+    if (timestamp !== undefined && !Number.isFinite(timestamp)) {
+      rejected.push({ line, referrer, candidate, reason: { status: 'MALFORMED', message: `bad timestamp ${JSON.stringify(raw)}` } });
+      return;
+    }
+
+    const result = network.tryAddReferral(referrer, candidate, { timestamp, metadata: edge.metadata });
+    if (result.status !== 'ok') {
+      rejected.push({ line, referrer, candidate, reason: result });
+      return;
+    }
+    imported++;
+
+    // only saved networks carry these, and fromJSON already checked them
+    for (const change of edge.statusHistory ?? []) {
+      network.setCandidateStatus(candidate, change.status, { at: change.at });
+    }
+  });
+
+  return { imported, rejected };
+}
+
+function networkPath(args: ParsedArgs): string {
+  return stringFlag(args, 'network') ?? DEFAULT_NETWORK_FILE;
+}
+
+function loadNetwork(args: ParsedArgs): ReferralNetwork {
+  const file = networkPath(args);
+  if (!existsSync(file)) {
+    throw new Error(`no network at ${file}, run "refnet import <file>" first or pass --network`);
+  }
+  return ReferralNetwork.fromJSON(readFileSync(file, 'utf8'));
+}
+
+function buildSimulation(args: ParsedArgs): NetworkSimulation {
+  return new NetworkSimulation({
+    startingReferrers: numberFlag(args, 'starting-referrers', { default: 100, integer: true, min: 0 }),
+    maxRefsPerUser: numberFlag(args, 'max-refs', { default: 10, integer: true, min: 1 }),
+    conversionRate: numberFlag(args, 'conversion-rate', { default: 1, min: 0, max: 1 })
+  });
+}
+
+function criterionFrom(args: ParsedArgs): TargetCriterion | undefined {
+  if (!args.flags.has('confidence')) {
+    if (args.flags.has('trials') || args.flags.has('seed')) {
+      throw new UsageError('--trials and --seed only apply together with --confidence');
+    }
+    return undefined;
+  }
+
+  return {
+    confidence: numberFlag(args, 'confidence', { above: 0, max: 1 }),
+    trials: args.flags.has('trials') ? numberFlag(args, 'trials', { integer: true, min: 1 }) : undefined,
+    seed: args.flags.has('seed') ? numberFlag(args, 'seed', { integer: true }) : undefined
+  };
+}
+
+function outputFormat(args: ParsedArgs): OutputFormat {
+  const output = stringFlag(args, 'output') ?? 'table';
+  if (output !== 'table' && output !== 'json') {
+    throw new UsageError(`--output must be table or json, got "${output}"`);
+  }
+  return output;
+}
+
+function ranked<T>(rows: T[], headers: string[], pick: (row: T) => Array<string | number>): CommandOutput {
+  return {
+    json: rows,
+    table: formatTable(['#', ...headers], rows.map((row, i) => [i + 1, ...pick(row)]))
+  };
+}
+
+// single value answers, null = not possible
+function answer(name: string, value: number | null): CommandOutput {
+  return {
+    json: { [name]: value },
+    table: value === null ? 'not reachable\n' : `${name}: ${value}\n`
+  };
+}
@@ -0,0 +1,33 @@
+export type OutputFormat = 'table' | 'json';
+
+/**
+ * plain left-aligned text table, numbers right-aligned
+ */
+export function formatTable(headers: string[], rows: Array<Array<string | number>>): string {
+  const cells = rows.map(row => row.map(formatCell));
+  const widths = headers.map((header, col) =>
+    cells.reduce((max, row) => Math.max(max, row[col].length), header.length)
+  );
+  const numeric = headers.map((_, col) => rows.length > 0 && rows.every(row => typeof row[col] === 'number'));
+
+  const line = (row: string[]) =>
+    row.map((cell, col) => (numeric[col] ? cell.padStart(widths[col]) : cell.padEnd(widths[col])))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(headers),
+    line(widths.map(w => '-'.repeat(w))),
+    ...cells.map(line)
+  ].join('\n') + '\n';
+}
+
+export function formatJSON(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+function formatCell(value: string | number): string {
+  if (typeof value === 'string') return value;
+  // keep integers as-is, trim long floats
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(6)));
+}
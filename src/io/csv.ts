@@ -0,0 +1,201 @@
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { ReferralRejection } from '../models/types';
+
+export type RowRejection = ReferralRejection | { status: 'MALFORMED'; message: string };
+
+export interface RejectedRow {
+  line: number; // 1-based, counting the header
+  referrer?: string;
+  candidate?: string;
+  reason: RowRejection;
+}
+
+export interface ImportReport {
+  network: ReferralNetwork;
+  imported: number;
+  rejectedCount: number;
+  // details for the first maxRejections rejected rows only
+  rejected: RejectedRow[];
+}
+
+export interface CsvImportOptions {
+  network?: ReferralNetwork; // import into an existing network instead of a new one
+  maxRejections?: number; // how many rejected rows to keep details for (default 1000)
+}
+
+export interface CsvExportOptions {
+  header?: boolean; // default true
+}
+
+const HEADER = ['referrer', 'candidate', 'timestamp'];
+
+/**
+ * edge list as csv: referrer,candidate,timestamp (ISO 8601)
+ */
+export function toCSV(network: ReferralNetwork, options: CsvExportOptions = {}): string {
+  const lines: string[] = [];
+  if (options.header ?? true) {
+    lines.push(HEADER.join(','));
+  }
+
+  for (const edge of network.toJSON().referrals) {
+    lines.push([
+      escapeField(edge.referrer),
+      escapeField(edge.candidate),
+      new Date(edge.timestamp).toISOString()
+    ].join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * parse a whole csv string - fine for small files, use importCSVStream for big ones
+ * rows that break the rules are reported, not thrown
+ */
+export function fromCSV(text: string, options: CsvImportOptions = {}): ImportReport {
+  const importer = new CsvImporter(options);
+  for (const line of text.split(/\r?\n/)) {
+    importer.consume(line);
+  }
+  return importer.report();
+}
+
+/**
+ * line-by-line import so files with millions of rows never sit in memory
+ */
+export async function importCSVStream(input: Readable, options: CsvImportOptions = {}): Promise<ImportReport> {
+  const importer = new CsvImporter(options);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    importer.consume(line);
+  }
+  return importer.report();
+}
+
+/**
+ * shared row handling for the sync and streaming importers
+ */
+class CsvImporter {
+  private readonly network: ReferralNetwork;
+  private readonly maxRejections: number;
+  private lineNo = 0;
+  private imported = 0;
+  private rejectedCount = 0;
+  private rejected: RejectedRow[] = [];
+
+  constructor(options: CsvImportOptions) {
+    this.network = options.network ?? new ReferralNetwork();
+    this.maxRejections = options.maxRejections ?? 1000;
+  }
+
+  consume(line: string): void {
+    this.lineNo++;
+    // excel's "CSV UTF-8" starts the file with a byte order mark
+    if (this.lineNo === 1 && line.startsWith('\uFEFF')) {
+      line = line.slice(1);
+    }
+    if (line.trim() === '') return;
+
+    let fields: string[];
+    try {
+      fields = parseRow(line);
+    } catch (err) {
+      this.reject({ status: 'MALFORMED', message: (err as Error).message });
+      return;
+    }
+
+    // optional header on the first line
+    if (this.lineNo === 1 && fields[0]?.toLowerCase() === 'referrer' && fields[1]?.toLowerCase() === 'candidate') {
+      return;
+    }
+
+    const [referrer, candidate, rawTime] = fields;
+    if (!referrer || !candidate || fields.length > 3) {
+      this.reject({ status: 'MALFORMED', message: 'expected referrer,candidate[,timestamp]' }, referrer, candidate);
+      return;
+    }
+
+    let timestamp: number | undefined;
+    if (rawTime !== undefined && rawTime !== '') {
+      timestamp = parseTimestamp(rawTime);
+      if (Number.isNaN(timestamp)) {
+        this.reject({ status: 'MALFORMED', message: `bad timestamp "${rawTime}"` }, referrer, candidate);
+        return;
+      }
+    }
+
+    const result = this.network.tryAddReferral(referrer, candidate, { timestamp });
+    if (result.status === 'ok') {
+      this.imported++;
+    } else {
+      this.reject(result, referrer, candidate);
+    }
+  }
+
+  report(): ImportReport {
+    return {
+      network: this.network,
+      imported: this.imported,
+      rejectedCount: this.rejectedCount,
+      rejected: this.rejected
+    };
+  }
+
+  private reject(reason: RowRejection, referrer?: string, candidate?: string): void {
+    this.rejectedCount++;
+    if (this.rejected.length < this.maxRejections) {
+      this.rejected.push({ line: this.lineNo, referrer, candidate, reason });
+    }
+  }
+}
+
+// epoch ms or anything Date.parse understands
+export function parseTimestamp(raw: string): number {
+  return /^-?\d+$/.test(raw.trim()) ? Number(raw) : Date.parse(raw);
+}
+
+/**
+ * one csv line, handles "quoted, fields" and "" escapes
+ * (quoted newlines aren't supported - ids shouldn't have them)
+ */
+function parseRow(line: string): string[] {
+  const fields: string[] = [];
+  let curr = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        curr += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        curr += ch;
+      }
+    } else if (ch === '"' && curr === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(curr.trim());
+      curr = '';
+    } else {
+      curr += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('unterminated quote');
+  }
+  fields.push(curr.trim());
+  return fields;
+}
+
+function escapeField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
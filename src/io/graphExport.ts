@@ -0,0 +1,220 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { CentralityOptions } from '../models/types';
+
+export interface GraphExportOptions {
+  root?: string; // only export this user's subtree
+  maxDepth?: number; // levels below the root (or below each tree's root) to keep
+  highlight?: string; // outline this user and everyone in their getFullReach
+  colorBy?: 'none' | 'depth' | 'centrality'; // default 'none'
+  centrality?: CentralityOptions; // passed to getFlowCentralityRanking for colorBy 'centrality'
+}
+
+interface ExportNode {
+  id: string;
+  label: string;
+  depth: number; // in the whole network, not the export
+  fill: string;
+  centrality: number | null;
+  highlight: 'focus' | 'reach' | null;
+  hiddenReach: number; // referrals cut off by maxDepth
+}
+
+interface ExportGraph {
+  nodes: ExportNode[];
+  edges: Array<{ from: string; to: string; highlighted: boolean }>;
+}
+
+const DEFAULT_FILL = '#ffffff';
+const HIGHLIGHT_STROKE = '#d62728';
+const DEPTH_PALETTE = ['#c6dbef', '#9ecae1', '#c7e9c0', '#a1d99b', '#fdd0a2', '#fdae6b', '#dadaeb', '#bcbddc'];
+
+/**
+ * Graphviz DOT - render with `dot -Tsvg referrals.dot > referrals.svg`
+ */
+export function toDot(network: ReferralNetwork, options: GraphExportOptions = {}): string {
+  const graph = buildGraph(network, options);
+  const lines = [
+    'digraph referrals {',
+    '  rankdir=TB;',
+    `  node [shape=box, style="rounded,filled", fillcolor="${DEFAULT_FILL}"];`
+  ];
+
+  for (const node of graph.nodes) {
+    const attrs = [`label=${dotString(node.label)}`];
+    if (node.fill !== DEFAULT_FILL) attrs.push(`fillcolor="${node.fill}"`);
+    if (node.highlight) attrs.push(`color="${HIGHLIGHT_STROKE}"`, `penwidth=${node.highlight === 'focus' ? 3 : 2}`);
+    lines.push(`  ${dotString(node.id)} [${attrs.join(', ')}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attrs = edge.highlighted ? ` [color="${HIGHLIGHT_STROKE}", penwidth=2]` : '';
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${attrs};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart - paste straight into markdown that renders mermaid
+ * user ids become n0, n1, ... since mermaid ids can't hold arbitrary text
+ */
+export function toMermaid(network: ReferralNetwork, options: GraphExportOptions = {}): string {
+  const graph = buildGraph(network, options);
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['flowchart TD'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${mermaidLabel(node.label)}"]`);
+  }
+
+  graph.edges.forEach(edge => {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  });
+
+  for (const node of graph.nodes) {
+    const style: string[] = [];
+    if (node.fill !== DEFAULT_FILL) style.push(`fill:${node.fill}`);
+    if (node.highlight) style.push(`stroke:${HIGHLIGHT_STROKE}`, `stroke-width:${node.highlight === 'focus' ? 3 : 2}px`);
+    if (style.length > 0) lines.push(`  style ${ids.get(node.id)} ${style.join(',')}`);
+  }
+
+  // mermaid styles edges by their position in the file
+  const highlighted = graph.edges.flatMap((edge, i) => (edge.highlighted ? [i] : []));
+  if (highlighted.length > 0) {
+    lines.push(`  linkStyle ${highlighted.join(',')} stroke:${HIGHLIGHT_STROKE},stroke-width:2px`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * GraphML for Gephi / yEd / networkx - depth, colour, centrality and
+ * highlight go in as node data so the tools can restyle them
+ */
+export function toGraphML(network: ReferralNetwork, options: GraphExportOptions = {}): string {
+  const graph = buildGraph(network, options);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="depth" for="node" attr.name="depth" attr.type="int"/>',
+    '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="centrality" for="node" attr.name="centrality" attr.type="double"/>',
+    '  <key id="highlight" for="node" attr.name="highlight" attr.type="string"/>',
+    '  <key id="hiddenReach" for="node" attr.name="hiddenReach" attr.type="int"/>',
+    '  <key id="highlighted" for="edge" attr.name="highlighted" attr.type="boolean"/>',
+    '  <graph id="referrals" edgedefault="directed">'
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${xmlEscape(node.id)}">`);
+    lines.push(`      <data key="label">${xmlEscape(node.label)}</data>`);
+    lines.push(`      <data key="depth">${node.depth}</data>`);
+    lines.push(`      <data key="color">${node.fill}</data>`);
+    if (node.centrality !== null) lines.push(`      <data key="centrality">${node.centrality}</data>`);
+    if (node.highlight) lines.push(`      <data key="highlight">${node.highlight}</data>`);
+    if (node.hiddenReach > 0) lines.push(`      <data key="hiddenReach">${node.hiddenReach}</data>`);
+    lines.push('    </node>');
+  }
+
+  graph.edges.forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${xmlEscape(edge.from)}" target="${xmlEscape(edge.to)}">`);
+    lines.push(`      <data key="highlighted">${edge.highlighted}</data>`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * pick the nodes/edges to draw and work out how each one looks
+ * all three formats render from this, so they always agree
+ */
+function buildGraph(network: ReferralNetwork, options: GraphExportOptions): ExportGraph {
+  const maxDepth = options.maxDepth ?? Infinity;
+  if (!(maxDepth >= 0)) {
+    throw new RangeError(`maxDepth must be >= 0, got ${maxDepth}`);
+  }
+  if (options.root !== undefined && !network.hasUser(options.root)) {
+    throw new Error(`unknown user: ${options.root}`);
+  }
+
+  const roots = options.root !== undefined ? [options.root] : network.getRoots();
+  const users = roots.flatMap(root => network.getSubtree(root, maxDepth));
+  const included = new Set(users);
+
+  const reach = new Set<string>();
+  if (options.highlight !== undefined) {
+    reach.add(options.highlight);
+    network.getFullReach(options.highlight).forEach(user => reach.add(user));
+  }
+
+  const centrality = options.colorBy === 'centrality'
+    ? new Map(network.getFlowCentralityRanking(options.centrality).map(r => [r.user, r.centralityScore]))
+    : null;
+  // scale against the busiest node actually drawn so truncated exports still use the full range
+  const maxScore = centrality ? users.reduce((max, user) => Math.max(max, centrality.get(user)!), 0) : 0;
+
+  const nodes = users.map((user): ExportNode => {
+    const depth = network.getDepth(user);
+    // getSubtree keeps whole levels, so a node missing any child is on the cut line
+    // and nothing below it made it in
+    const hiddenReach = network.getDirectRefs(user).some(ref => !included.has(ref))
+      ? network.getTotalReach(user)
+      : 0;
+
+    let fill = DEFAULT_FILL;
+    if (options.colorBy === 'depth') {
+      fill = DEPTH_PALETTE[depth % DEPTH_PALETTE.length];
+    } else if (centrality) {
+      fill = heat(maxScore > 0 ? centrality.get(user)! / maxScore : 0);
+    }
+
+    return {
+      id: user,
+      label: hiddenReach > 0 ? `${user} (+${hiddenReach})` : user,
+      depth,
+      fill,
+      centrality: centrality ? centrality.get(user)! : null,
+      highlight: user === options.highlight ? 'focus' : reach.has(user) ? 'reach' : null,
+      hiddenReach
+    };
+  });
+
+  const edges = users
+    .filter(user => user !== options.root && network.getReferrer(user) !== null)
+    .map(user => {
+      const from = network.getReferrer(user)!;
+      return { from, to: user, highlighted: reach.has(from) && reach.has(user) };
+    });
+
+  return { nodes, edges };
+}
+
+// white -> orange -> dark red as t goes 0 -> 1
+function heat(t: number): string {
+  const from = [255, 245, 235];
+  const to = [166, 54, 3];
+  return '#' + from
+    .map((c, i) => Math.round(c + (to[i] - c) * t).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,170 @@
+/**
+ * keeps subtree size (reach) and depth for every user up to date as edges
+ * come and go. each candidate has a single referrer, so adding or removing an
+ * edge only touches the ancestor chain (reach) and the moved subtree (depth)
+ *
+ * users are also bucketed by reach. the distinct reach values get re-sorted
+ * lazily on the first top() after a change, then top-k is a walk down from
+ * the biggest bucket
+ */
+export class ReachIndex {
+  private reach: Map<string, number> = new Map();
+  private depth: Map<string, number> = new Map();
+  private buckets: Map<number, Set<string>> = new Map();
+  private sortedKeys: number[] = []; // ascending distinct reach values
+  private keysDirty = false;
+
+  constructor(
+    private readonly childrenOf: (user: string) => Iterable<string>,
+    private readonly parentOf: (user: string) => string | undefined
+  ) {}
+
+  getReach(user: string): number {
+    return this.reach.get(user) ?? 0;
+  }
+
+  getDepth(user: string): number {
+    return this.depth.get(user) ?? 0;
+  }
+
+  has(user: string): boolean {
+    return this.reach.has(user);
+  }
+
+  /**
+   * start tracking a user as an isolated root, no-op if already tracked
+   */
+  ensure(user: string): void {
+    if (this.reach.has(user)) return;
+
+    this.reach.set(user, 0);
+    this.depth.set(user, 0);
+    this.addToBucket(user, 0);
+  }
+
+  /**
+   * forget everything and index these users from scratch - for stores that
+   * already hold data when the network opens them. O(V)
+   */
+  rebuild(users: Iterable<string>): void {
+    this.reach.clear();
+    this.depth.clear();
+    this.buckets.clear();
+    this.keysDirty = true;
+
+    // top-down for depths, then bottom-up over the same order for reach
+    const order: string[] = [];
+    const stack = Array.from(users).filter(user => this.parentOf(user) === undefined);
+    for (const root of stack) {
+      this.depth.set(root, 0);
+    }
+    while (stack.length > 0) {
+      const curr = stack.pop()!;
+      order.push(curr);
+      for (const child of this.childrenOf(curr)) {
+        this.depth.set(child, this.depth.get(curr)! + 1);
+        stack.push(child);
+      }
+    }
+
+    for (let i = order.length - 1; i >= 0; i--) {
+      let below = 0;
+      for (const child of this.childrenOf(order[i])) {
+        below += this.reach.get(child)! + 1;
+      }
+      this.reach.set(order[i], below);
+      this.addToBucket(order[i], below);
+    }
+  }
+
+  remove(user: string): void {
+    const r = this.reach.get(user);
+    if (r === undefined) return;
+
+    this.removeFromBucket(user, r);
+    this.reach.delete(user);
+    this.depth.delete(user);
+  }
+
+  /**
+   * call after child has been hung under parent
+   */
+  attach(parent: string, child: string): void {
+    this.shiftAncestors(parent, this.getReach(child) + 1);
+    this.shiftDepths(child, this.getDepth(parent) + 1 - this.getDepth(child));
+  }
+
+  /**
+   * call before child is taken off parent, while the chain is still intact
+   */
+  detach(parent: string, child: string): void {
+    this.shiftAncestors(parent, -(this.getReach(child) + 1));
+    this.shiftDepths(child, -this.getDepth(child));
+  }
+
+  /**
+   * top k users by reach, biggest first
+   */
+  top(k: number): Array<{ user: string; totalReferrals: number }> {
+    const result: Array<{ user: string; totalReferrals: number }> = [];
+    if (this.keysDirty) {
+      this.sortedKeys = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+      this.keysDirty = false;
+    }
+
+    for (let i = this.sortedKeys.length - 1; i >= 0 && result.length < k; i--) {
+      const r = this.sortedKeys[i];
+      for (const user of this.buckets.get(r)!) {
+        if (result.length >= k) break;
+        result.push({ user, totalReferrals: r });
+      }
+    }
+
+    return result;
+  }
+
+  private shiftAncestors(from: string, delta: number): void {
+    let curr: string | undefined = from;
+    while (curr !== undefined) {
+      const old = this.getReach(curr);
+      this.removeFromBucket(curr, old);
+      this.reach.set(curr, old + delta);
+      this.addToBucket(curr, old + delta);
+      curr = this.parentOf(curr);
+    }
+  }
+
+  private shiftDepths(root: string, delta: number): void {
+    if (delta === 0) return;
+
+    const stack = [root];
+    while (stack.length > 0) {
+      const curr = stack.pop()!;
+      this.depth.set(curr, this.getDepth(curr) + delta);
+      for (const child of this.childrenOf(curr)) {
+        stack.push(child);
+      }
+    }
+  }
+
+  private addToBucket(user: string, r: number): void {
+    let bucket = this.buckets.get(r);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(r, bucket);
+      this.keysDirty = true;
+    }
+    bucket.add(user);
+  }
+
+  private removeFromBucket(user: string, r: number): void {
+    const bucket = this.buckets.get(r);
+    if (!bucket) return;
+
+    bucket.delete(user);
+    if (bucket.size === 0) {
+      this.buckets.delete(r);
+      this.keysDirty = true;
+    }
+  }
+}
@@ -1,105 +1,708 @@
-export class ReferralNetwork {
-  // main referral map - who refers who
-  private refMap: Map<string, Set<string>> = new Map();
-  // reverse lookup - who referred this person
-  private whoReferred: Map<string, string> = new Map();
+import {
+  AttributeValue,
+  BatchOptions,
+  BatchResult,
+  CANDIDATE_STATUSES,
+  CandidateStatus,
+  CentralityOptions,
+  ConversionStats,
+  MutationResult,
+  NETWORK_SCHEMA_VERSION,
+  READABLE_NETWORK_SCHEMA_VERSIONS,
+  ReferralEdge,
+  ReferralInput,
+  ReferralNetworkEvent,
+  ReferralNetworkEvents,
+  ReferralNetworkJSON,
+  ReferralOptions,
+  ReferralRejection,
+  ReferralResult,
+  Rejection,
+  RemoveUserMode,
+  StatusChange,
+  StatusOptions,
+  TimeWindow,
+  TransactionResult,
+  UserAttributes
+} from './types';
+import { ReachIndex } from './ReachIndex';
+import { ReferralStore } from '../storage/ReferralStore';
+import { InMemoryStore } from '../storage/InMemoryStore';
+import { Emitter, Listener } from '../utils/Emitter';
+import { MaxHeap } from '../utils/MaxHeap';
+import { createRng } from '../utils/random';
+import { checkedMillis, toMillis } from '../utils/time';
+
+export interface ReferralNetworkOptions {
+  store?: ReferralStore; // where edges live (default: in memory)
+  reachMilestones?: number[]; // reach values that fire reachMilestone (default 10, 50, 100)
+  // a listener threw - the graph change already happened and stays (default: console.error)
+  onListenerError?: (err: unknown, event: ReferralNetworkEvent) => void;
+  historyLimit?: number; // undo steps kept, oldest dropped first (default 1000, 0 turns history off)
+}
+
+const DEFAULT_MILESTONES = [10, 50, 100];
+const DEFAULT_HISTORY_LIMIT = 1000;
+
+// pipeline order, rejected sits outside it
+const STAGE: Record<CandidateStatus, number> = { referred: 0, interviewed: 1, offered: 2, hired: 3, rejected: -1 };
+
+// every mutation boils down to these, so replaying them backwards undoes it
+type Change =
+  | { op: 'link' | 'unlink'; edge: ReferralEdge }
+  | { op: 'replace'; before: ReferralEdge; after: ReferralEdge } // same referrer, new details
+  | { op: 'attributes'; user: string; before?: UserAttributes; after?: UserAttributes }; // undefined = none
+
+interface HistoryEntry {
+  id: number;
+  changes: Change[];
+}
+
+/**
+ * A is the shape of the user attributes, e.g.
+ * ReferralNetwork<{ department: string; region: string }>
+ */
+export class ReferralNetwork<A extends UserAttributes = UserAttributes> {
+  // edges + who-referred-who lookups, see storage/
+  private readonly store: ReferralStore;
+  // subtree sizes + depths, updated on every link/unlink
+  private readonly reachIndex: ReachIndex;
+  private readonly events: Emitter<ReferralNetworkEvents>;
+  private readonly milestones: number[];
+
+  // one entry per public mutation (or transaction), newest last
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private readonly historyLimit: number;
+  private nextId = 1;
+  private baseId = 0; // checkpoint id of the state before the oldest undo entry
+  // changes of the mutation in progress, null when idle
+  private pending: Change[] | null = null;
+  // rejections seen by the innermost open transaction
+  private rejections: Rejection[] | null = null;
+
+  /**
+   * a store that already holds edges (e.g. a replayed journal) is indexed up front
+   */
+  constructor(options: ReferralNetworkOptions = {}) {
+    this.store = options.store ?? new InMemoryStore();
+    this.reachIndex = new ReachIndex(
+      user => this.store.getChildren(user),
+      user => this.store.getReferrer(user)
+    );
+    this.reachIndex.rebuild(this.store.users());
+
+    const milestones = options.reachMilestones ?? DEFAULT_MILESTONES;
+    if (milestones.some(m => !Number.isInteger(m) || m < 1)) {
+      throw new RangeError(`reachMilestones must be positive integers, got ${milestones.join(', ')}`);
+    }
+    this.milestones = Array.from(new Set(milestones)).sort((a, b) => a - b);
+    this.events = new Emitter<ReferralNetworkEvents>(
+      options.onListenerError ?? ((err, event) => console.error(`${String(event)} listener threw`, err))
+    );
+
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    if (!(this.historyLimit >= 0) || (!Number.isInteger(this.historyLimit) && this.historyLimit !== Infinity)) {
+      throw new RangeError(`historyLimit must be a non-negative integer, got ${this.historyLimit}`);
+    }
+  }
+
+  /**
+   * subscribe to changes, returns an unsubscribe function
+   * events fire after the change is fully applied, and a listener that throws
+   * can't undo it or stop the other listeners
+   */
+  on<E extends ReferralNetworkEvent>(event: E, listener: Listener<ReferralNetworkEvents[E]>): () => void {
+    return this.events.on(event, listener);
+  }
 
   /**
    * adds referral link, checks for cycles and stuff
+   * timestamp defaults to now, metadata is optional
+   */
+  addReferral(referrer: string, candidate: string, options: ReferralOptions = {}): boolean {
+    return this.tryAddReferral(referrer, candidate, options).status === 'ok';
+  }
+
+  /**
+   * same as addReferral but says why it got rejected
    */
-  addReferral(referrer: string, candidate: string): boolean {
+  tryAddReferral(referrer: string, candidate: string, options: ReferralOptions = {}): ReferralResult {
+    return this.record(() => {
+      const timestamp = options.timestamp === undefined
+        ? Date.now()
+        : checkedMillis(options.timestamp, `timestamp for ${referrer} -> ${candidate}`);
+
+      const rejection = this.checkReferral(referrer, candidate);
+      if (rejection) {
+        this.events.emit('referralRejected', { referrer, candidate, reason: rejection });
+        return this.refuse(rejection);
+      }
+
+      const watched = this.watchReach(referrer);
+
+      // actually add the referral now
+      const newUsers = [referrer, candidate].filter(user => !this.hasUser(user));
+      this.linkAndAnnounce({
+        referrer,
+        candidate,
+        timestamp,
+        ...(options.metadata ? { metadata: { ...options.metadata } } : {})
+      }, newUsers);
+      this.emitMilestones(watched);
+
+      return { status: 'ok' };
+    });
+  }
+
+  private checkReferral(referrer: string, candidate: string): ReferralRejection | null {
     if (referrer === candidate) {
-      return false; // can't refer yourself, duh
+      return { status: 'SELF_REFERRAL' }; // can't refer yourself, duh
     }
 
-    if (this.whoReferred.has(candidate)) {
-      return false; // already has someone who referred them
+    const existingReferrer = this.store.getReferrer(candidate);
+    if (existingReferrer !== undefined) {
+      return { status: 'ALREADY_REFERRED', existingReferrer }; // already has someone who referred them
     }
 
-    // check if this would make a cycle
-    if (this.wouldMakeCycle(referrer, candidate)) {
-      return false;
+    // cycle if candidate is already somewhere above the referrer
+    const cyclePath = this.pathDown(candidate, referrer);
+    if (cyclePath) {
+      return { status: 'CYCLE', path: cyclePath };
     }
 
-    // actually add the referral now
-    if (!this.refMap.has(referrer)) {
-      this.refMap.set(referrer, new Set());
-    }
-    this.refMap.get(referrer)!.add(candidate);
-    this.whoReferred.set(candidate, referrer);
+    return null;
+  }
+
+  /**
+   * add a bunch of referrals in order, reporting each outcome
+   * with atomic: true any rejection (or bad input) undoes the whole batch
+   */
+  addReferrals(items: ReferralInput[], options: BatchOptions = {}): BatchResult {
+    return this.record(() => {
+      const results: ReferralResult[] = [];
+      let added = 0;
+
+      // atomic batches hold their events until we know whether they stick
+      const savepoint = options.atomic ? this.savepoint() : null;
+
+      for (const { referrer, candidate, ...referralOptions } of items) {
+        let result: ReferralResult;
+        try {
+          result = this.tryAddReferral(referrer, candidate, referralOptions);
+        } catch (err) {
+          if (savepoint !== null) this.rollbackTo(savepoint);
+          throw err;
+        }
+
+        results.push(result);
+        if (result.status === 'ok') added++;
+      }
+
+      // keep checking the rest so callers see every problem, then undo
+      if (savepoint !== null && added < items.length) {
+        this.rollbackTo(savepoint);
+        return { committed: false, added: 0, results };
+      }
+
+      if (savepoint !== null) this.events.release();
+      return { committed: true, added, results };
+    });
+  }
+
+  /**
+   * run fn as one all-or-nothing change: if it throws, or anything inside it
+   * gets rejected, every change it made is rolled back. it's also a single
+   * undo step. a nested transaction that rolls back only fails itself
+   */
+  transaction<T>(fn: (network: this) => T): TransactionResult<T> {
+    return this.record(() => {
+      const savepoint = this.savepoint();
+      const outer = this.rejections;
+      const rejections: Rejection[] = [];
+      this.rejections = rejections;
+
+      let value: T;
+      try {
+        value = fn(this);
+      } catch (err) {
+        this.rollbackTo(savepoint);
+        throw err;
+      } finally {
+        this.rejections = outer;
+      }
+
+      if (rejections.length > 0) {
+        this.rollbackTo(savepoint);
+        return { committed: false, rejections };
+      }
+
+      this.events.release();
+      return { committed: true, value };
+    });
+  }
+
+  /**
+   * take back the last mutation (or transaction), false if there's nothing to undo
+   * undo and redo don't fire events
+   */
+  undo(): boolean {
+    this.assertIdle('undo');
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    this.batch(() => {
+      for (let i = entry.changes.length - 1; i >= 0; i--) {
+        this.apply(entry.changes[i], true);
+      }
+    });
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * re-apply the last undone step, false if there's nothing to redo
+   * any new mutation after an undo clears what could be redone
+   */
+  redo(): boolean {
+    this.assertIdle('redo');
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
 
+    this.batch(() => {
+      for (const change of entry.changes) {
+        this.apply(change, false);
+      }
+    });
+    this.undoStack.push(entry);
     return true;
   }
 
+  /**
+   * id for the current state, to come back to with restore()
+   */
+  checkpoint(): number {
+    return this.undoStack[this.undoStack.length - 1]?.id ?? this.baseId;
+  }
+
+  /**
+   * undo (or redo) until the network is back at the checkpoint
+   * throws if the checkpoint fell off the history or was on a branch that got overwritten
+   */
+  restore(checkpoint: number): void {
+    this.assertIdle('restore');
+
+    if (checkpoint === this.baseId || this.undoStack.some(entry => entry.id === checkpoint)) {
+      while (this.checkpoint() !== checkpoint) this.undo();
+    } else if (this.redoStack.some(entry => entry.id === checkpoint)) {
+      while (this.checkpoint() !== checkpoint) this.redo();
+    } else {
+      throw new RangeError(`checkpoint ${checkpoint} is no longer in the history`);
+    }
+  }
+
+  /**
+   * forget undo/redo steps, earlier checkpoints stop working
+   */
+  clearHistory(): void {
+    this.assertIdle('clear history');
+    this.baseId = this.checkpoint();
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+
+  /**
+   * drop a single referral edge (e.g. found to be fraudulent)
+   * the candidate keeps their own referrals and becomes a root
+   */
+  removeReferral(referrer: string, candidate: string): MutationResult {
+    return this.record(() => {
+      const current = this.store.getReferrer(candidate);
+      if (current !== referrer) {
+        return this.refuse({ status: 'NOT_REFERRED', candidate, referrer });
+      }
+
+      this.unlink(candidate);
+      return { status: 'ok' };
+    });
+  }
+
+  /**
+   * delete a user entirely (GDPR erasure etc), attributes included
+   * their referrals are either orphaned or moved up to the user's own referrer
+   */
+  removeUser(user: string, mode: RemoveUserMode = 'orphan'): MutationResult {
+    return this.record(() => {
+      const attributes = this.store.getAttributes(user);
+      if (!this.hasUser(user) && attributes === undefined) {
+        return this.refuse({ status: 'UNKNOWN_USER', user });
+      }
+      if (attributes !== undefined) {
+        this.writeAttributes(user, undefined);
+      }
+
+      const parent = this.store.getReferrer(user);
+      for (const child of this.getDirectRefs(user)) {
+        const edge = this.store.getEdge(child)!;
+        this.unlink(child);
+
+        // keep the original timestamp/metadata, only the referrer changes
+        if (mode === 'reparent' && parent !== undefined) {
+          this.link({ ...edge, referrer: parent });
+        }
+      }
+
+      if (parent !== undefined) {
+        this.unlink(user);
+      }
+
+      return { status: 'ok' };
+    });
+  }
+
+  /**
+   * move a candidate (and their whole subtree) under a different referrer
+   * original timestamp, metadata and pipeline status stay on the edge
+   */
+  reassignReferrer(candidate: string, newReferrer: string): MutationResult {
+    return this.record(() => {
+      if (!this.hasUser(candidate)) {
+        return this.refuse({ status: 'UNKNOWN_USER', user: candidate });
+      }
+      if (candidate === newReferrer) {
+        return this.refuse({ status: 'SELF_REFERRAL' });
+      }
+
+      const cyclePath = this.pathDown(candidate, newReferrer);
+      if (cyclePath) {
+        return this.refuse({ status: 'CYCLE', path: cyclePath });
+      }
+
+      const edge = this.store.getEdge(candidate);
+      if (edge?.referrer === newReferrer) {
+        return { status: 'ok' }; // nothing to do
+      }
+
+      const watched = this.watchReach(newReferrer);
+      const newUsers = this.hasUser(newReferrer) ? [] : [newReferrer];
+      if (edge) {
+        this.unlink(candidate);
+      }
+      this.linkAndAnnounce(
+        edge ? { ...edge, referrer: newReferrer } : { referrer: newReferrer, candidate, timestamp: Date.now() },
+        newUsers
+      );
+      this.emitMilestones(watched);
+
+      return { status: 'ok' };
+    });
+  }
+
+  /**
+   * fold `drop` into `keep` when they turn out to be the same person
+   * drop's referrals move to keep, and keep inherits drop's referrer if it has none
+   * attributes are merged too, keep's win where both have one
+   */
+  mergeUsers(keep: string, drop: string): MutationResult {
+    return this.record(() => {
+      if (!this.hasUser(drop)) {
+        return this.refuse({ status: 'UNKNOWN_USER', user: drop });
+      }
+      if (keep === drop) {
+        return { status: 'ok' };
+      }
+
+      // drop above keep - keep would end up referring its own ancestors
+      const cyclePath = this.pathDown(drop, keep);
+      if (cyclePath) {
+        return this.refuse({ status: 'CYCLE', path: cyclePath });
+      }
+
+      const keepParent = this.store.getReferrer(keep);
+      const dropEdge = this.store.getEdge(drop);
+      // if keep is above drop, drop's referrer is inside keep's tree - nothing to inherit
+      const inherit = dropEdge !== undefined && !this.pathDown(keep, drop);
+
+      if (inherit && keepParent !== undefined && keepParent !== dropEdge!.referrer) {
+        return this.refuse({ status: 'ALREADY_REFERRED', existingReferrer: keepParent });
+      }
+
+      // keep's chain gains drop's referrals; if keep takes over drop's referrer, so does that chain
+      const watched = new Map([
+        ...this.watchReach(keep),
+        ...(inherit ? this.watchReach(dropEdge!.referrer) : [])
+      ]);
+
+      // keep is the only one who can be new, the rest only drop out between unlink and link
+      let newUsers = this.hasUser(keep) ? [] : [keep];
+      for (const child of this.getDirectRefs(drop)) {
+        const edge = this.store.getEdge(child)!;
+        this.unlink(child);
+        this.linkAndAnnounce({ ...edge, referrer: keep }, newUsers);
+        newUsers = [];
+      }
+
+      if (dropEdge) {
+        this.unlink(drop);
+      }
+      if (inherit && keepParent === undefined) {
+        this.linkAndAnnounce({ ...dropEdge!, candidate: keep }, newUsers);
+      }
+
+      const dropAttributes = this.store.getAttributes(drop);
+      if (dropAttributes !== undefined) {
+        this.writeAttributes(keep, { ...dropAttributes, ...this.store.getAttributes(keep) });
+        this.writeAttributes(drop, undefined);
+      }
+      this.emitMilestones(watched);
+
+      return { status: 'ok' };
+    });
+  }
+
+  /**
+   * move a referred candidate along the hiring pipeline
+   * stages only go forward (skipping is fine), rejected works from any stage
+   * before hired, and hired / rejected are final
+   */
+  setCandidateStatus(candidate: string, status: CandidateStatus, options: StatusOptions = {}): MutationResult {
+    if (!CANDIDATE_STATUSES.includes(status)) {
+      throw new TypeError(`unknown candidate status ${status}, expected one of ${CANDIDATE_STATUSES.join(', ')}`);
+    }
+    const at = options.at === undefined ? Date.now() : checkedMillis(options.at, `status time for ${candidate}`);
+
+    return this.record(() => {
+      const edge = this.store.getEdge(candidate);
+      if (!edge) {
+        return this.refuse(
+          this.hasUser(candidate)
+            ? { status: 'INVALID_TRANSITION', candidate, from: null, to: status }
+            : { status: 'UNKNOWN_USER', user: candidate }
+        );
+      }
+
+      const history = this.historyOf(edge);
+      const current = history[history.length - 1];
+      const final = current.status === 'hired' || current.status === 'rejected';
+      if (final || (status !== 'rejected' && STAGE[status] <= STAGE[current.status])) {
+        return this.refuse({ status: 'INVALID_TRANSITION', candidate, from: current.status, to: status });
+      }
+      if (at < current.at) {
+        throw new RangeError(`${candidate} was already ${current.status} at ${current.at}, can't be ${status} at ${at}`);
+      }
+
+      this.replaceEdge({ ...edge, statusHistory: [...(edge.statusHistory ?? []), { status, at }] });
+      this.events.emit('statusChanged', { candidate, from: current.status, to: status, at });
+      return { status: 'ok' };
+    });
+  }
+
+  /**
+   * where the candidate is in the pipeline, null if nobody referred them
+   */
+  getCandidateStatus(candidate: string): CandidateStatus | null {
+    const edge = this.store.getEdge(candidate);
+    return edge ? this.statusOf(edge) : null;
+  }
+
+  /**
+   * every pipeline move, starting with 'referred' at the referral time
+   * empty if nobody referred them
+   */
+  getStatusHistory(candidate: string): StatusChange[] {
+    const edge = this.store.getEdge(candidate);
+    return edge ? this.historyOf(edge) : [];
+  }
+
+  /**
+   * merge attributes into what the user already has, undefined removes a key
+   * the user doesn't have to be in the graph yet, e.g. loading a staff directory
+   * throws TypeError for anything that isn't a string, finite number or boolean
+   */
+  setUserAttributes(user: string, attributes: Partial<A>): void {
+    const current = this.store.getAttributes(user);
+    const merged: UserAttributes = { ...current };
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === undefined) {
+        delete merged[key];
+      } else if (isAttributeValue(value)) {
+        merged[key] = value;
+      } else {
+        throw new TypeError(`attribute ${key} of ${user} must be a string, finite number or boolean, got ${String(value)}`);
+      }
+    }
+
+    const empty = Object.keys(merged).length === 0;
+    if (empty && current === undefined) return; // nothing to clear
+    this.record(() => this.writeAttributes(user, empty ? undefined : merged));
+  }
+
+  /**
+   * a copy of the user's attributes, {} if they have none
+   */
+  getUserAttributes(user: string): Partial<A> {
+    return { ...this.store.getAttributes(user) } as Partial<A>;
+  }
+
+  /**
+   * everyone whose attribute `key` equals value, in or out of the graph
+   * O(users with attributes)
+   */
+  getUsersWithAttribute<K extends keyof A & string>(key: K, value: A[K]): string[] {
+    const users: string[] = [];
+    for (const [user, attributes] of this.store.attributes()) {
+      if (attributes[key] === value) users.push(user);
+    }
+    return users;
+  }
+
+  /**
+   * everyone who has at least one attribute
+   */
+  getAttributedUsers(): string[] {
+    return Array.from(this.store.attributes(), ([user]) => user);
+  }
+
+  /**
+   * graph users plus anyone with attributes who hasn't referred or been
+   * referred yet - everyone the network knows anything about
+   */
+  getKnownUsers(): string[] {
+    const users = new Set(this.getAllUsers());
+    for (const user of this.getAttributedUsers()) users.add(user);
+    return Array.from(users);
+  }
+
+  /**
+   * full edge info (timestamp, metadata) for whoever referred this candidate
+   */
+  getReferralEdge(candidate: string): ReferralEdge | null {
+    const edge = this.store.getEdge(candidate);
+    return edge ? { ...edge } : null;
+  }
+
   /**
    * get direct referrals only
    */
   getDirectRefs(user: string): string[] {
-    const refs = this.refMap.get(user);
-    return refs ? Array.from(refs) : [];
+    return Array.from(this.store.getChildren(user));
   }
 
   /**
    * check if user exists anywhere in network
    */
   hasUser(user: string): boolean {
-    return this.refMap.has(user) || this.whoReferred.has(user);
+    return this.store.hasUser(user);
   }
 
   /**
    * who referred this person?
    */
   getReferrer(candidate: string): string | null {
-    return this.whoReferred.get(candidate) || null;
+    return this.store.getReferrer(candidate) ?? null;
   }
 
   /**
-   * get everyone in the network
+   * referrer, their referrer, ... up to the root (user not included)
+   * chain[i] is the person i + 1 levels up - handy for multi-level payouts
    */
-  getAllUsers(): string[] {
-    const allPeople = new Set<string>();
-    
-    // add all the referrers first
-    for (const ref of this.refMap.keys()) {
-      allPeople.add(ref);
+  getReferralChain(user: string): string[] {
+    return this.ancestorsOf(user);
+  }
+
+  /**
+   * hops from the root of the user's tree, roots (and unknown users) are 0
+   */
+  getDepth(user: string): number {
+    return this.reachIndex.getDepth(user);
+  }
+
+  /**
+   * users nobody referred - the top of each tree
+   */
+  getRoots(): string[] {
+    return Array.from(this.store.referrers()).filter(user => this.store.getReferrer(user) === undefined);
+  }
+
+  /**
+   * deepest user that is an ancestor of (or equal to) both a and b
+   * null if either is unknown or they're in different trees
+   */
+  getLowestCommonReferrer(a: string, b: string): string | null {
+    if (!this.hasUser(a) || !this.hasUser(b)) {
+      return null;
     }
-    
-    // now add all the people who got referred
-    for (const person of this.whoReferred.keys()) {
-      allPeople.add(person);
+
+    // bring both to the same depth, then climb together
+    let x: string | undefined = a;
+    let y: string | undefined = b;
+    let dx = this.getDepth(a);
+    let dy = this.getDepth(b);
+
+    while (dx > dy) { x = this.store.getReferrer(x!); dx--; }
+    while (dy > dx) { y = this.store.getReferrer(y!); dy--; }
+
+    while (x !== y) {
+      x = this.store.getReferrer(x!);
+      y = this.store.getReferrer(y!);
     }
-    
-    return Array.from(allPeople);
+
+    return x ?? null;
   }
 
   /**
-   * count total referrals including downstream ones (BFS)
+   * the user plus everyone below them, down to maxDepth hops (BFS order)
    */
-  getTotalReach(user: string): number {
-    const seen = new Set<string>();
-    const queue = [user];
-    let cnt = 0;
+  getSubtree(user: string, maxDepth: number = Infinity): string[] {
+    if (!this.hasUser(user)) {
+      return [];
+    }
 
-    while (queue.length > 0) {
-      const curr = queue.shift()!;
-      
-      if (seen.has(curr)) {
-        continue;
-      }
-      seen.add(curr);
+    const result = [user];
+    let frontier = [user];
 
-      const directRefs = this.refMap.get(curr);
-      if (directRefs) {
-        for (const ref of directRefs) {
-          if (!seen.has(ref)) {
-            queue.push(ref);
-            cnt++;
-          }
-        }
-      }
+    for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+      frontier = frontier.flatMap(curr => this.getDirectRefs(curr));
+      result.push(...frontier);
+    }
+
+    return result;
+  }
+
+  /**
+   * everyone exactly n hops below the user (n = 1 is the direct refs)
+   */
+  getLevel(user: string, n: number): string[] {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new RangeError(`level must be a non-negative integer, got ${n}`);
     }
+    if (!this.hasUser(user)) {
+      return [];
+    }
+
+    let frontier = [user];
+    for (let level = 0; level < n && frontier.length > 0; level++) {
+      frontier = frontier.flatMap(curr => this.getDirectRefs(curr));
+    }
+
+    return frontier;
+  }
+
+  /**
+   * get everyone in the network
+   */
+  getAllUsers(): string[] {
+    // referrers first, then everyone who only got referred
+    return Array.from(this.store.users());
+  }
 
-    return cnt;
+  /**
+   * count total referrals including downstream ones
+   * O(1) - read straight off the reach index
+   */
+  getTotalReach(user: string): number {
+    return this.reachIndex.getReach(user);
   }
 
   /**
@@ -112,13 +715,10 @@ export class ReferralNetwork {
     while (queue.length > 0) {
       const curr = queue.shift()!;
       
-      const directRefs = this.refMap.get(curr);
-      if (directRefs) {
-        for (const ref of directRefs) {
-          if (!reached.has(ref)) {
-            reached.add(ref);
-            queue.push(ref);
-          }
+      for (const ref of this.store.getChildren(curr)) {
+        if (!reached.has(ref)) {
+          reached.add(ref);
+          queue.push(ref);
         }
       }
     }
@@ -129,12 +729,34 @@ export class ReferralNetwork {
   /**
    * get top referrers by reach
    * k should be like 10-20 for dashboards, 50+ for analysis
+   * O(k) off the reach index, ties come out in no particular order
    */
   getTopReferrers(k: number): Array<{ user: string; totalReferrals: number }> {
-    const allPeople = this.getAllUsers();
-    const userStats = allPeople.map(user => ({
+    return this.reachIndex.top(k);
+  }
+
+  /**
+   * direct referrals made inside the time window
+   */
+  getDirectRefsInWindow(user: string, window: TimeWindow): string[] {
+    return this.getDirectRefs(user).filter(ref => this.inWindow(ref, window));
+  }
+
+  /**
+   * like getTotalReach but only counts downstream referrals made in the window
+   * e.g. "how many referrals did alice's tree generate last quarter"
+   */
+  getTotalReachInWindow(user: string, window: TimeWindow): number {
+    return this.getFullReach(user).filter(ref => this.inWindow(ref, window)).length;
+  }
+
+  /**
+   * top referrers ranked by reach generated inside the window
+   */
+  getTopReferrersInWindow(k: number, window: TimeWindow): Array<{ user: string; totalReferrals: number }> {
+    const userStats = this.getAllUsers().map(user => ({
       user,
-      totalReferrals: this.getTotalReach(user)
+      totalReferrals: this.getTotalReachInWindow(user, window)
     }));
 
     return userStats
@@ -143,169 +765,576 @@ export class ReferralNetwork {
   }
 
   /**
-   * greedy algorithm to find influencers with unique reach
-   * tries to minimize overlap between selected users
+   * like getTotalReach but only counts downstream people who got hired
+   * O(subtree)
    */
-  getUniqueReachInfluencers(k: number): Array<{ user: string; newReachAdded: number }> {
-    const allPeople = this.getAllUsers();
-    const reachMap = new Map<string, Set<string>>();
-    
-    // pre-compute everyone's reach first
-    for (const person of allPeople) {
-      reachMap.set(person, new Set(this.getFullReach(person)));
+  getHiredReach(user: string): number {
+    return this.getFullReach(user).filter(person => this.isHired(person)).length;
+  }
+
+  /**
+   * top referrers ranked by hires anywhere below them
+   * one O(V) pass, ties come out in no particular order
+   */
+  getTopReferrersByHires(k: number): Array<{ user: string; totalHires: number }> {
+    const hires = this.hiredReachAll();
+    return Array.from(hires, ([user, totalHires]) => ({ user, totalHires }))
+      .filter(entry => entry.totalHires > 0)
+      .sort((a, b) => b.totalHires - a.totalHires)
+      .slice(0, k);
+  }
+
+  /**
+   * how each referrer's direct referrals have done in the pipeline
+   * busiest referrers first
+   */
+  getConversionRates(): ConversionStats[] {
+    const stats: ConversionStats[] = [];
+
+    for (const user of this.store.referrers()) {
+      const entry: ConversionStats = { user, referrals: 0, hired: 0, rejected: 0, inProgress: 0, conversionRate: 0 };
+      for (const candidate of this.store.getChildren(user)) {
+        const status = this.statusOf(this.store.getEdge(candidate)!);
+        entry.referrals++;
+        if (status === 'hired') entry.hired++;
+        else if (status === 'rejected') entry.rejected++;
+        else entry.inProgress++;
+      }
+      entry.conversionRate = entry.hired / entry.referrals;
+      stats.push(entry);
     }
 
-    const picked: Array<{ user: string; newReachAdded: number }> = [];
-    const coveredPeople = new Set<string>();
+    return stats.sort((a, b) => b.referrals - a.referrals || b.conversionRate - a.conversionRate);
+  }
 
-    for (let i = 0; i < k && picked.length < allPeople.length; i++) {
-      let bestPick = '';
-      let bestNewReach = 0;
+  /**
+   * the network as it stood at the given moment (referrals at or before it)
+   */
+  snapshotAt(date: Date | number): ReferralNetwork<A> {
+    const cutoff = toMillis(date);
+    const snapshot = new ReferralNetwork<A>();
+    const kept = Array.from(this.store.edges())
+      .filter(edge => edge.timestamp <= cutoff)
+      .sort((a, b) => a.timestamp - b.timestamp);
 
-      // find person who adds most new unique reach
-      for (const person of allPeople) {
-        if (picked.some(p => p.user === person)) {
-          continue; // already picked this person
-        }
+    for (const edge of kept) {
+      snapshot.addReferral(edge.referrer, edge.candidate, {
+        timestamp: edge.timestamp,
+        metadata: edge.metadata
+      });
+      for (const change of edge.statusHistory ?? []) {
+        if (change.at <= cutoff) snapshot.setCandidateStatus(edge.candidate, change.status, { at: change.at });
+      }
+    }
+    // attributes aren't timestamped, the snapshot gets today's
+    for (const [user, attributes] of this.store.attributes()) {
+      snapshot.store.putAttributes(user, { ...attributes });
+    }
+
+    snapshot.clearHistory();
+    return snapshot;
+  }
+
+  /**
+   * plain versioned object, safe to JSON.stringify
+   * referrals come out oldest first, attributes only when someone has some
+   */
+  toJSON(): ReferralNetworkJSON {
+    const referrals = Array.from(this.store.edges())
+      .map(edge => ({ ...edge }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const users: Record<string, UserAttributes> = {};
+    for (const [user, attributes] of this.store.attributes()) {
+      users[user] = { ...attributes };
+    }
+
+    return Object.keys(users).length > 0
+      ? { version: NETWORK_SCHEMA_VERSION, referrals, users }
+      : { version: NETWORK_SCHEMA_VERSION, referrals };
+  }
 
-        const personReach = reachMap.get(person)!;
-        const newReachCount = Array.from(personReach).filter(candidate => 
-          !coveredPeople.has(candidate)
-        ).length;
+  /**
+   * rebuild a network from toJSON output (or a JSON string of it)
+   * throws if the schema version is unknown or a referral breaks the rules
+   */
+  static fromJSON<A extends UserAttributes = UserAttributes>(data: ReferralNetworkJSON | string): ReferralNetwork<A> {
+    const parsed: ReferralNetworkJSON = typeof data === 'string' ? JSON.parse(data) : data;
 
-        if (newReachCount > bestNewReach) {
-          bestNewReach = newReachCount;
-          bestPick = person;
+    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.referrals)) {
+      throw new TypeError('not a serialized ReferralNetwork');
+    }
+    if (!READABLE_NETWORK_SCHEMA_VERSIONS.includes(parsed.version)) {
+      throw new Error(
+        `unsupported network schema version ${parsed.version}, expected one of ${READABLE_NETWORK_SCHEMA_VERSIONS.join(', ')}`
+      );
+    }
+
+    const network = new ReferralNetwork<A>();
+    parsed.referrals.forEach((edge, i) => {
+      if (typeof edge?.referrer !== 'string' || typeof edge?.candidate !== 'string') {
+        throw new TypeError(`referral #${i} is missing referrer/candidate`);
+      }
+      // a saved edge always has its time, filling in "now" would quietly reorder history
+      if (typeof edge.timestamp !== 'number' || !Number.isFinite(edge.timestamp)) {
+        throw new TypeError(`referral #${i} ${edge.referrer} -> ${edge.candidate} has a missing or malformed timestamp`);
+      }
+      if (edge.metadata !== undefined && !isStringRecord(edge.metadata)) {
+        throw new TypeError(`referral #${i} ${edge.referrer} -> ${edge.candidate} has malformed metadata, expected an object of strings`);
+      }
+
+      const result = network.tryAddReferral(edge.referrer, edge.candidate, {
+        timestamp: edge.timestamp,
+        metadata: edge.metadata
+      });
+      if (result.status !== 'ok') {
+        throw new Error(`referral #${i} ${edge.referrer} -> ${edge.candidate} rejected: ${result.status}`);
+      }
+
+      // replayed so bad pipelines get caught like bad referrals
+      for (const change of edge.statusHistory ?? []) {
+        if (typeof change?.at !== 'number' || !Number.isFinite(change.at)) {
+          throw new TypeError(`referral #${i} status ${change?.status} for ${edge.candidate} has a missing or malformed time`);
+        }
+        const moved = network.setCandidateStatus(edge.candidate, change?.status, { at: change?.at });
+        if (moved.status !== 'ok') {
+          throw new Error(`referral #${i} status ${change.status} for ${edge.candidate} rejected: ${moved.status}`);
         }
       }
+    });
 
-      if (bestNewReach === 0) {
-        break; // no more unique reach possible
+    if (parsed.users !== undefined && (typeof parsed.users !== 'object' || parsed.users === null)) {
+      throw new TypeError('users must map each user to their attributes');
+    }
+    for (const [user, attributes] of Object.entries(parsed.users ?? {})) {
+      if (typeof attributes !== 'object' || attributes === null || Array.isArray(attributes)) {
+        throw new TypeError(`attributes for user ${user} must be an object, got ${JSON.stringify(attributes)}`);
       }
+      network.setUserAttributes(user, attributes as Partial<A>);
+    }
 
-      picked.push({ user: bestPick, newReachAdded: bestNewReach });
-      
-      // add this person's reach to covered set
-      const bestPickReach = reachMap.get(bestPick)!;
-      for (const candidate of bestPickReach) {
-        coveredPeople.add(candidate);
+    network.clearHistory(); // loading isn't something to undo
+    return network;
+  }
+
+  /**
+   * greedy algorithm to find influencers with unique reach
+   * tries to minimize overlap between selected users
+   *
+   * in a forest the uncovered reach of u is 0 if an ancestor was already picked,
+   * otherwise reach(u) minus what earlier picks covered inside u's subtree - so we
+   * only track a covered count per ancestor instead of full reach sets. gains only
+   * shrink, so a lazy max-heap re-checks just the top candidate each round
+   *
+   * pass `among` to only pick from those users (e.g. one segment), their
+   * reach still counts everyone below them
+   */
+  getUniqueReachInfluencers(k: number, among?: Iterable<string>): Array<{ user: string; newReachAdded: number }> {
+    return this.greedyUniqueReach(k, user => this.reachIndex.getReach(user), among)
+      .map(({ user, gain }) => ({ user, newReachAdded: gain }));
+  }
+
+  /**
+   * getUniqueReachInfluencers counting only hired people - the referrers whose
+   * trees brought in the most hires without double counting
+   */
+  getUniqueHireInfluencers(k: number): Array<{ user: string; newHiresAdded: number }> {
+    const hires = this.hiredReachAll();
+    return this.greedyUniqueReach(k, user => hires.get(user) ?? 0)
+      .map(({ user, gain }) => ({ user, newHiresAdded: gain }));
+  }
+
+  /**
+   * the greedy behind both, weightOf(u) = how much is below u
+   */
+  private greedyUniqueReach(
+    k: number,
+    weightOf: (user: string) => number,
+    among: Iterable<string> = this.getAllUsers()
+  ): Array<{ user: string; gain: number }> {
+    const picked: Array<{ user: string; gain: number }> = [];
+    const pickedSet = new Set<string>();
+    const covered = new Map<string, number>(); // covered weight below each user
+    const heap = new MaxHeap<string>();
+
+    for (const person of new Set(among)) {
+      const weight = weightOf(person);
+      if (weight > 0) heap.push(person, weight);
+    }
+
+    while (picked.length < k && heap.size > 0) {
+      const { item: person } = heap.pop()!;
+
+      const hasPickedAncestor = this.ancestorsOf(person).some(a => pickedSet.has(a));
+      const newReach = hasPickedAncestor ? 0 : weightOf(person) - (covered.get(person) ?? 0);
+
+      if (newReach === 0) {
+        continue; // nothing left to add, drop them
+      }
+
+      // stale - someone else might be better now
+      if (heap.size > 0 && newReach < heap.peekPriority()!) {
+        heap.push(person, newReach);
+        continue;
+      }
+
+      picked.push({ user: person, gain: newReach });
+      pickedSet.add(person);
+
+      // everything newly covered is below this person, so bump them and their ancestors
+      for (const a of [person, ...this.ancestorsOf(person)]) {
+        covered.set(a, (covered.get(a) ?? 0) + newReach);
       }
     }
 
     return picked;
   }
 
+
   /**
    * flow centrality - finds broker users who connect network parts
-   * basically finds people who are on many shortest paths
+   * basically counts how many (upstream, downstream) pairs route through each user
+   *
+   * the graph is a forest so every path is unique, and a user sits on the path
+   * of exactly ancestors x descendants pairs - no distance matrix needed, O(V)
+   * pass sampleSize to estimate from a random sample of sources instead
    */
-  getFlowCentralityRanking(): Array<{ user: string; centralityScore: number }> {
+  getFlowCentralityRanking(options: CentralityOptions = {}): Array<{ user: string; centralityScore: number }> {
     const allPeople = this.getAllUsers();
-    const distMatrix = this.buildDistanceMatrix();
-    const scores = new Map<string, number>();
+    const n = allPeople.length;
+    const scores = options.sampleSize !== undefined
+      ? this.sampledCentrality(allPeople, options.sampleSize, options.seed ?? 1)
+      : this.exactCentrality(allPeople);
+
+    // same scale as directed betweenness: share of all (src, dest) pairs
+    const scale = options.normalized && n > 2 ? 1 / ((n - 1) * (n - 2)) : 1;
+
+    return allPeople
+      .map(person => ({ user: person, centralityScore: scores.get(person)! * scale }))
+      .sort((a, b) => b.centralityScore - a.centralityScore);
+  }
+
+  private exactCentrality(allPeople: string[]): Map<string, number> {
+    const ancestors = new Map<string, number>();
+    const descendants = new Map<string, number>();
+    const order: string[] = [];
+
+    // top-down pass for depth, starting from the roots
+    const stack = allPeople.filter(person => this.store.getReferrer(person) === undefined);
+    for (const root of stack) {
+      ancestors.set(root, 0);
+    }
+    while (stack.length > 0) {
+      const curr = stack.pop()!;
+      order.push(curr);
+      for (const ref of this.store.getChildren(curr)) {
+        ancestors.set(ref, ancestors.get(curr)! + 1);
+        stack.push(ref);
+      }
+    }
 
-    // init all scores to 0
+    // bottom-up pass for subtree sizes
+    for (let i = order.length - 1; i >= 0; i--) {
+      const curr = order[i];
+      let below = 0;
+      for (const ref of this.store.getChildren(curr)) {
+        below += descendants.get(ref)! + 1;
+      }
+      descendants.set(curr, below);
+    }
+
+    const scores = new Map<string, number>();
     for (const person of allPeople) {
-      scores.set(person, 0);
+      scores.set(person, ancestors.get(person)! * descendants.get(person)!);
     }
+    return scores;
+  }
 
-    // for every pair, see which users are on shortest paths
-    for (const src of allPeople) {
-      for (const dest of allPeople) {
-        if (src === dest) continue;
+  /**
+   * brandes-style source sampling: run the dependency accumulation from a
+   * random subset of sources and scale up by n / sampleSize
+   * sampling every user gives the exact answer
+   */
+  private sampledCentrality(allPeople: string[], sampleSize: number, seed: number): Map<string, number> {
+    if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+      throw new RangeError(`sampleSize must be a positive integer, got ${sampleSize}`);
+    }
 
-        const directDist = distMatrix.get(src)?.get(dest);
-        if (directDist === undefined || directDist === Infinity) continue;
+    const n = allPeople.length;
+    const k = Math.min(sampleSize, n);
+    const rng = createRng(seed);
+    const pool = allPeople.slice();
+    const scores = new Map<string, number>(allPeople.map(person => [person, 0]));
 
-        // check each potential intermediate
-        for (const mid of allPeople) {
-          if (mid === src || mid === dest) continue;
+    for (let i = 0; i < k; i++) {
+      // partial fisher-yates so sources are picked without replacement
+      const j = i + Math.floor(rng() * (n - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+      const source = pool[i];
 
-          const srcToMid = distMatrix.get(src)?.get(mid);
-          const midToDest = distMatrix.get(mid)?.get(dest);
+      // bfs order from the source, then accumulate dependencies backwards
+      const order = [source];
+      for (let q = 0; q < order.length; q++) {
+        for (const ref of this.store.getChildren(order[q])) {
+          order.push(ref);
+        }
+      }
 
-          // if this path goes through mid and it's a shortest path
-          if (srcToMid !== undefined && midToDest !== undefined &&
-              srcToMid + midToDest === directDist) {
-            scores.set(mid, scores.get(mid)! + 1);
-          }
+      const dependency = new Map<string, number>();
+      for (let q = order.length - 1; q > 0; q--) {
+        const curr = order[q];
+        let dep = 0;
+        for (const ref of this.store.getChildren(curr)) {
+          dep += 1 + dependency.get(ref)!;
         }
+        dependency.set(curr, dep);
+        scores.set(curr, scores.get(curr)! + dep * (n / k));
       }
     }
 
-    return Array.from(scores.entries())
-      .map(([person, score]) => ({ user: person, centralityScore: score }))
-      .sort((a, b) => b.centralityScore - a.centralityScore);
+    return scores;
   }
 
-  private buildDistanceMatrix(): Map<string, Map<string, number>> {
-    const allPeople = this.getAllUsers();
-    const dist = new Map<string, Map<string, number>>();
+  /**
+   * run a mutation, collecting its changes into one undo step
+   * mutations called from inside another one just join its step
+   */
+  private record<T>(fn: () => T): T {
+    if (this.pending) return fn();
 
-    // setup distance matrix with infinity
-    for (const person of allPeople) {
-      dist.set(person, new Map());
-      for (const otherPerson of allPeople) {
-        dist.get(person)!.set(otherPerson, person === otherPerson ? 0 : Infinity);
-      }
+    this.pending = [];
+    try {
+      return this.batch(fn);
+    } finally {
+      const changes = this.pending;
+      this.pending = null;
+      if (changes.length > 0) this.remember(changes);
     }
+  }
 
-    // set direct connections to distance 1
-    for (const [referrer, refSet] of this.refMap) {
-      for (const ref of refSet) {
-        dist.get(referrer)!.set(ref, 1);
-      }
+  // one store batch, so a journal persists the whole step or none of it
+  private batch<T>(fn: () => T): T {
+    this.store.beginBatch?.();
+    try {
+      return fn();
+    } finally {
+      this.store.endBatch?.();
+    }
+  }
+
+  private remember(changes: Change[]): void {
+    this.undoStack.push({ id: this.nextId++, changes });
+    this.redoStack = [];
+    while (this.undoStack.length > this.historyLimit) {
+      this.baseId = this.undoStack.shift()!.id;
+    }
+  }
+
+  // start buffering events, returns where to roll back to
+  private savepoint(): number {
+    this.events.hold();
+    return this.pending!.length;
+  }
+
+  /**
+   * undo everything since the savepoint. the reverting changes land in pending
+   * too, so both get cut off together. only the rejections get reported
+   */
+  private rollbackTo(savepoint: number): void {
+    const changes = this.pending!;
+    for (let i = changes.length - 1; i >= savepoint; i--) {
+      this.apply(changes[i], true);
+    }
+    changes.length = savepoint;
+    this.events.release(event => event === 'referralRejected');
+  }
+
+  private apply(change: Change, reverse: boolean): void {
+    if (change.op === 'replace') {
+      this.replaceEdge(reverse ? change.before : change.after);
+    } else if (change.op === 'attributes') {
+      this.writeAttributes(change.user, reverse ? change.before : change.after);
+    } else if ((change.op === 'link') !== reverse) {
+      this.link(change.edge);
+    } else {
+      this.unlink(change.edge.candidate);
     }
+  }
+
+  private refuse<R extends Rejection>(rejection: R): R {
+    this.rejections?.push(rejection);
+    return rejection;
+  }
+
+  private assertIdle(action: string): void {
+    if (this.pending) {
+      throw new Error(`can't ${action} while a change is in progress`);
+    }
+  }
 
-    // floyd warshall to get all shortest paths
-    for (const k of allPeople) {
-      for (const i of allPeople) {
-        for (const j of allPeople) {
-          const currentDist = dist.get(i)!.get(j)!;
-          const pathThroughK = dist.get(i)!.get(k)! + dist.get(k)!.get(j)!;
-          
-          if (pathThroughK < currentDist) {
-            dist.get(i)!.set(j, pathThroughK);
-          }
+  /**
+   * reach of the user and everyone above them, to compare after a change
+   * empty when nobody listens for milestones, so it costs nothing then
+   */
+  private watchReach(user: string): Map<string, number> {
+    const watched = new Map<string, number>();
+    if (!this.events.hasListeners('reachMilestone')) return watched;
+
+    for (const u of [user, ...this.ancestorsOf(user)]) {
+      watched.set(u, this.reachIndex.getReach(u));
+    }
+    return watched;
+  }
+
+  private emitMilestones(before: Map<string, number>): void {
+    for (const [user, old] of before) {
+      const reach = this.reachIndex.getReach(user);
+      for (const milestone of this.milestones) {
+        if (old < milestone && reach >= milestone) {
+          this.events.emit('reachMilestone', { user, milestone, reach });
         }
       }
     }
+  }
+
+  // the store goes first in each of these - if it throws, the index and the
+  // change log never hear about a write that didn't happen
+  private link(edge: ReferralEdge): void {
+    this.store.putEdge(edge);
+
+    this.reachIndex.ensure(edge.referrer);
+    this.reachIndex.ensure(edge.candidate);
+    this.reachIndex.attach(edge.referrer, edge.candidate);
+    this.pending?.push({ op: 'link', edge });
+  }
+
+  /**
+   * link plus userAdded for newUsers (whoever wasn't in the graph before the
+   * mutation started) and referralAdded for the edge - held with everything
+   * else inside a batch or transaction
+   */
+  private linkAndAnnounce(edge: ReferralEdge, newUsers: string[]): void {
+    this.link(edge);
+
+    for (const user of newUsers) {
+      this.events.emit('userAdded', { user });
+    }
+    this.events.emit('referralAdded', { edge: { ...edge } });
+  }
+
+  private unlink(candidate: string): void {
+    const edge = this.store.getEdge(candidate);
+    if (edge === undefined) return;
+    const referrer = edge.referrer;
 
-    return dist;
+    this.store.deleteEdge(candidate); // users only exist through their edges
+
+    this.reachIndex.detach(referrer, candidate);
+    for (const user of [referrer, candidate]) {
+      if (!this.hasUser(user)) this.reachIndex.remove(user);
+    }
+    this.pending?.push({ op: 'unlink', edge });
   }
 
-  private wouldMakeCycle(referrer: string, candidate: string): boolean {
-    // if candidate not in network yet, definitely no cycle
-    if (!this.hasUser(candidate)) {
-      return false;
+  // same referrer, new details (e.g. status) - reach and depth don't change
+  private replaceEdge(edge: ReferralEdge): void {
+    const before = this.store.getEdge(edge.candidate)!;
+    this.store.putEdge(edge);
+    this.pending?.push({ op: 'replace', before, after: edge });
+  }
+
+  // undefined clears them
+  private writeAttributes(user: string, attributes: UserAttributes | undefined): void {
+    const before = this.store.getAttributes(user);
+    if (attributes === undefined) {
+      this.store.deleteAttributes(user);
+    } else {
+      this.store.putAttributes(user, attributes);
     }
+    this.pending?.push({ op: 'attributes', user, before, after: attributes });
+  }
+
+  private historyOf(edge: ReferralEdge): StatusChange[] {
+    return [{ status: 'referred', at: edge.timestamp }, ...(edge.statusHistory ?? []).map(change => ({ ...change }))];
+  }
 
-    // use DFS to see if referrer is reachable from candidate
-    const seen = new Set<string>();
-    const stack = [candidate];
+  private statusOf(edge: ReferralEdge): CandidateStatus {
+    const history = edge.statusHistory;
+    return history && history.length > 0 ? history[history.length - 1].status : 'referred';
+  }
 
+  private isHired(user: string): boolean {
+    const edge = this.store.getEdge(user);
+    return edge !== undefined && this.statusOf(edge) === 'hired';
+  }
+
+  /**
+   * hired people below every user, children before parents in one O(V) pass
+   */
+  private hiredReachAll(): Map<string, number> {
+    const order: string[] = [];
+    const stack = this.getRoots();
     while (stack.length > 0) {
       const curr = stack.pop()!;
-      
-      if (curr === referrer) {
-        return true; // found cycle!
-      }
+      order.push(curr);
+      stack.push(...this.store.getChildren(curr));
+    }
 
-      if (seen.has(curr)) {
-        continue;
+    const hires = new Map<string, number>();
+    for (let i = order.length - 1; i >= 0; i--) {
+      let below = 0;
+      for (const child of this.store.getChildren(order[i])) {
+        below += hires.get(child)! + (this.isHired(child) ? 1 : 0);
       }
-      seen.add(curr);
+      hires.set(order[i], below);
+    }
+    return hires;
+  }
 
-      const currRefs = this.refMap.get(curr);
-      if (currRefs) {
-        for (const ref of currRefs) {
-          if (!seen.has(ref)) {
-            stack.push(ref);
-          }
-        }
-      }
+  // referrer, their referrer, ... up to the root
+  private ancestorsOf(user: string): string[] {
+    const chain: string[] = [];
+    let curr = this.store.getReferrer(user);
+    while (curr !== undefined) {
+      chain.push(curr);
+      curr = this.store.getReferrer(curr);
     }
+    return chain;
+  }
 
-    return false; // no cycle found
+  /**
+   * path from `ancestor` down to `user` if ancestor is above (or is) user, else null
+   * walks up the referrer chain, so O(depth)
+   */
+  private pathDown(ancestor: string, user: string): string[] | null {
+    const chain = [user];
+    let curr: string | undefined = user;
+
+    while (curr !== ancestor) {
+      curr = this.store.getReferrer(curr!);
+      if (curr === undefined) return null;
+      chain.push(curr);
+    }
+
+    return chain.reverse();
+  }
+
+  private inWindow(candidate: string, window: TimeWindow): boolean {
+    const edge = this.store.getEdge(candidate);
+    if (!edge) return false;
+
+    if (window.from !== undefined && edge.timestamp < toMillis(window.from)) return false;
+    if (window.to !== undefined && edge.timestamp >= toMillis(window.to)) return false;
+    return true;
   }
 }
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+// referral metadata is a flat bag of strings (channel, jobId, ...)
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'string');
+}
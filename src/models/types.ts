@@ -0,0 +1,149 @@
+/**
+ * extra info we keep about where a referral came from
+ */
+export interface ReferralMetadata {
+  channel?: string; // e.g. 'slack', 'email', 'job-board'
+  jobId?: string;
+}
+
+/**
+ * facts about a user to group them by - department, region, hiring channel...
+ * plain scalars so they compare, group and serialize cleanly
+ */
+export type AttributeValue = string | number | boolean;
+
+export type UserAttributes = Record<string, AttributeValue>;
+
+export interface ReferralOptions {
+  timestamp?: Date | number; // defaults to now
+  metadata?: ReferralMetadata;
+}
+
+/**
+ * where a referred candidate is in the hiring pipeline
+ * referred -> interviewed -> offered -> hired, or rejected any time before hired
+ */
+export type CandidateStatus = 'referred' | 'interviewed' | 'offered' | 'hired' | 'rejected';
+
+export const CANDIDATE_STATUSES: readonly CandidateStatus[] = ['referred', 'interviewed', 'offered', 'hired', 'rejected'];
+
+export interface StatusChange {
+  status: CandidateStatus;
+  at: number; // epoch ms
+}
+
+export interface ReferralEdge {
+  referrer: string;
+  candidate: string;
+  timestamp: number; // epoch ms
+  metadata?: ReferralMetadata;
+  // pipeline moves after the referral itself, oldest first - missing means still 'referred'
+  statusHistory?: StatusChange[];
+}
+
+/**
+ * half-open time range [from, to), either side can be left open
+ */
+export interface TimeWindow {
+  from?: Date | number;
+  to?: Date | number;
+}
+
+/**
+ * why a mutation was refused - every variant carries enough to explain it
+ */
+export type Rejection =
+  | { status: 'SELF_REFERRAL' }
+  | { status: 'ALREADY_REFERRED'; existingReferrer: string }
+  | { status: 'CYCLE'; path: string[] } // candidate -> ... -> referrer, the chain that would loop
+  | { status: 'UNKNOWN_USER'; user: string }
+  | { status: 'NOT_REFERRED'; candidate: string; referrer: string } // no such edge
+  // pipeline move that isn't allowed, from is null when nobody referred the user
+  | { status: 'INVALID_TRANSITION'; candidate: string; from: CandidateStatus | null; to: CandidateStatus };
+
+export type MutationResult = { status: 'ok' } | Rejection;
+
+/**
+ * what happens to someone's referrals when they're deleted
+ * orphan - their referrals become roots
+ * reparent - their referrals move up to whoever referred them
+ */
+export type RemoveUserMode = 'orphan' | 'reparent';
+
+export type ReferralRejection = Extract<Rejection, { status: 'SELF_REFERRAL' | 'ALREADY_REFERRED' | 'CYCLE' }>;
+
+export type ReferralResult = { status: 'ok' } | ReferralRejection;
+
+export interface ReferralInput extends ReferralOptions {
+  referrer: string;
+  candidate: string;
+}
+
+export interface BatchOptions {
+  atomic?: boolean; // all-or-nothing - any rejection rolls the whole batch back
+}
+
+export interface BatchResult {
+  committed: boolean; // false only when an atomic batch was rolled back
+  added: number;
+  results: ReferralResult[]; // one per input, same order
+}
+
+/**
+ * what network.transaction() hands back - the callback's return value, or
+ * every rejection that made it roll back
+ */
+export type TransactionResult<T> =
+  | { committed: true; value: T }
+  | { committed: false; rejections: Rejection[] };
+
+/**
+ * how one referrer's direct referrals have done in the pipeline
+ */
+export interface ConversionStats {
+  user: string;
+  referrals: number;
+  hired: number;
+  rejected: number;
+  inProgress: number; // referred, interviewed or offered
+  conversionRate: number; // hired / referrals
+}
+
+export interface StatusOptions {
+  at?: Date | number; // defaults to now
+}
+
+// 2: edges carry their statusHistory, and user attributes come under `users`
+export const NETWORK_SCHEMA_VERSION = 2;
+// what fromJSON still reads - a version 1 file just has no pipeline moves or attributes
+export const READABLE_NETWORK_SCHEMA_VERSIONS: readonly number[] = [1, 2];
+
+/**
+ * what toJSON writes and fromJSON reads
+ * bump NETWORK_SCHEMA_VERSION when the shape changes
+ */
+export interface ReferralNetworkJSON {
+  version: number;
+  referrals: ReferralEdge[];
+  users?: Record<string, UserAttributes>; // attributes by user, left out when nobody has any
+}
+
+export interface CentralityOptions {
+  normalized?: boolean; // divide by (n - 1)(n - 2) so scores land in [0, 1]
+  sampleSize?: number; // estimate from this many random sources instead of exact
+  seed?: number; // for the sampled mode
+}
+
+/**
+ * payloads for ReferralNetwork.on(event, listener)
+ */
+export interface ReferralNetworkEvents {
+  referralAdded: { edge: ReferralEdge };
+  referralRejected: { referrer: string; candidate: string; reason: ReferralRejection };
+  // someone's getTotalReach went from below a milestone to at or above it
+  reachMilestone: { user: string; milestone: number; reach: number };
+  userAdded: { user: string };
+  statusChanged: { candidate: string; from: CandidateStatus; to: CandidateStatus; at: number };
+}
+
+export type ReferralNetworkEvent = keyof ReferralNetworkEvents;
@@ -0,0 +1,238 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { DEFAULT_MAX_BONUS, NetworkSimulation, TargetCriterion } from '../simulation/NetworkSimulation';
+import { DAY_MS, toMillis } from '../utils/time';
+
+/**
+ * how a hire's bonus gets split up the referral chain
+ * levels[0] is the direct referrer, levels[1] their referrer, ...
+ * e.g. { baseBonus: 1000, levels: [1, 0.2, 0.05] } pays 1000 / 200 / 50
+ */
+export interface CommissionPlan {
+  baseBonus: number;
+  levels: number[];
+  perUserCap?: number; // most any one person can earn across all hires
+  vesting?: {
+    requireConfirmation?: boolean; // nothing vests until the hire is confirmed
+    vestingDays?: number; // wait this long after confirmation (or hire) before vesting
+  };
+}
+
+export interface HireEvent {
+  candidate: string;
+  hiredAt: Date | number;
+  confirmedAt?: Date | number;
+  bonus?: number; // overrides the plan's baseBonus for this hire
+  id?: string; // defaults to the candidate id
+}
+
+export type PayoutStatus = 'vested' | 'pending';
+
+/**
+ * one line of the audit trail - who gets what for which hire and why
+ */
+export interface PayoutItem {
+  hireId: string;
+  candidate: string;
+  beneficiary: string;
+  level: number; // 1 = direct referrer
+  rate: number;
+  gross: number; // before caps
+  amount: number; // after caps
+  capped: boolean;
+  status: PayoutStatus;
+  vestsAt: number | null; // epoch ms, null while waiting on confirmation
+}
+
+export interface LedgerEntry {
+  user: string;
+  vested: number;
+  pending: number;
+  items: PayoutItem[];
+}
+
+export interface PayoutLedger {
+  entries: LedgerEntry[]; // biggest earners first
+  audit: PayoutItem[]; // every item in hire order
+  skipped: Array<{ hireId: string; candidate: string; reason: 'NO_REFERRER' }>;
+  totalVested: number;
+  totalPending: number;
+}
+
+export interface WhatIfResult {
+  bonus: number; // headline bonus that comes to costPerHire once the whole chain is paid
+  costMultiplier: number; // total payout per hire as a multiple of the headline bonus
+  costPerHire: number; // what the search picked, in minBonusForTarget's $10 steps
+  totalCost: number; // for the whole target
+}
+
+/**
+ * multi-level commission payouts over a ReferralNetwork
+ */
+export class PayoutEngine {
+  constructor(private readonly network: ReferralNetwork, private readonly plan: CommissionPlan) {
+    if (!(plan.baseBonus >= 0)) {
+      throw new RangeError(`baseBonus must be >= 0, got ${plan.baseBonus}`);
+    }
+    if (plan.levels.length === 0 || plan.levels.some(rate => !(rate >= 0))) {
+      throw new RangeError('levels must be a non-empty list of rates >= 0');
+    }
+    if (plan.perUserCap !== undefined && !(plan.perUserCap >= 0)) {
+      throw new RangeError(`perUserCap must be >= 0, got ${plan.perUserCap}`);
+    }
+    if (plan.vesting?.vestingDays !== undefined && !(plan.vesting.vestingDays >= 0)) {
+      throw new RangeError(`vestingDays must be >= 0, got ${plan.vesting.vestingDays}`);
+    }
+  }
+
+  /**
+   * work out the ledger for a list of hires as of the given moment
+   * hires are processed oldest first, so caps are used up first come first served
+   */
+  run(hires: HireEvent[], asOf: Date | number = Date.now()): PayoutLedger {
+    const now = toMillis(asOf);
+    const earned = new Map<string, number>(); // vested + pending, for caps
+    const audit: PayoutItem[] = [];
+    const skipped: PayoutLedger['skipped'] = [];
+
+    const ordered = hires.slice().sort((a, b) => toMillis(a.hiredAt) - toMillis(b.hiredAt));
+
+    for (const hire of ordered) {
+      const hireId = hire.id ?? hire.candidate;
+      const chain = this.network.getReferralChain(hire.candidate);
+
+      if (chain.length === 0) {
+        skipped.push({ hireId, candidate: hire.candidate, reason: 'NO_REFERRER' });
+        continue;
+      }
+
+      const bonus = hire.bonus ?? this.plan.baseBonus;
+      const vestsAt = this.vestingTime(hire);
+      const status: PayoutStatus = vestsAt !== null && vestsAt <= now ? 'vested' : 'pending';
+
+      const levels = Math.min(chain.length, this.plan.levels.length);
+      for (let i = 0; i < levels; i++) {
+        const beneficiary = chain[i];
+        const rate = this.plan.levels[i];
+        const gross = bonus * rate;
+        const soFar = earned.get(beneficiary) ?? 0;
+        const amount = this.plan.perUserCap === undefined
+          ? gross
+          : Math.max(0, Math.min(gross, this.plan.perUserCap - soFar));
+
+        earned.set(beneficiary, soFar + amount);
+        audit.push({
+          hireId,
+          candidate: hire.candidate,
+          beneficiary,
+          level: i + 1,
+          rate,
+          gross,
+          amount,
+          capped: amount < gross,
+          status,
+          vestsAt
+        });
+      }
+    }
+
+    return this.buildLedger(audit, skipped);
+  }
+
+  /**
+   * expected total payout per hire as a multiple of the headline bonus
+   * a new hire comes in under some existing user, so their chain is that
+   * user's depth + 1 long - averaged over everyone who could refer them
+   * (caps are ignored here)
+   */
+  expectedCostMultiplier(): number {
+    const users = this.network.getAllUsers();
+    const fullChain = this.plan.levels.reduce((sum, rate) => sum + rate, 0);
+    if (users.length === 0) {
+      return fullChain;
+    }
+
+    let total = 0;
+    for (const user of users) {
+      const chainLength = Math.min(this.network.getDepth(user) + 1, this.plan.levels.length);
+      for (let i = 0; i < chainLength; i++) {
+        total += this.plan.levels[i];
+      }
+    }
+    return total / users.length;
+  }
+
+  /**
+   * cheapest plan cost per hire that hits a hiring target. minBonusForTarget
+   * searches over what a hire costs across all levels, and each cost is turned
+   * back into the headline bonus the adoption curve sees. the search stops at
+   * the cost of the largest headline bonus, so every plan gets the same bonus
+   * range no matter its multiplier. null if the target is out of reach
+   */
+  whatIf(
+    sim: NetworkSimulation,
+    days: number,
+    targetHires: number,
+    adoptionFunc: (bonus: number) => number,
+    criterion?: TargetCriterion
+  ): WhatIfResult | null {
+    const costMultiplier = this.expectedCostMultiplier();
+    // a plan that pays nobody costs nothing at any bonus, so search the bonus itself
+    if (costMultiplier === 0) {
+      const bonus = sim.minBonusForTarget(days, targetHires, adoptionFunc, 1e-3, criterion);
+      return bonus === null ? null : { bonus, costMultiplier, costPerHire: 0, totalCost: 0 };
+    }
+
+    const costPerHire = sim.minBonusForTarget(
+      days,
+      targetHires,
+      cost => adoptionFunc(cost / costMultiplier),
+      1e-3,
+      criterion,
+      DEFAULT_MAX_BONUS * costMultiplier
+    );
+    if (costPerHire === null) {
+      return null;
+    }
+
+    return { bonus: costPerHire / costMultiplier, costMultiplier, costPerHire, totalCost: costPerHire * targetHires };
+  }
+
+  // null means still waiting on confirmation
+  private vestingTime(hire: HireEvent): number | null {
+    const vesting = this.plan.vesting ?? {};
+    if (vesting.requireConfirmation && hire.confirmedAt === undefined) {
+      return null;
+    }
+
+    const start = toMillis(hire.confirmedAt ?? hire.hiredAt);
+    return start + (vesting.vestingDays ?? 0) * DAY_MS;
+  }
+
+  private buildLedger(audit: PayoutItem[], skipped: PayoutLedger['skipped']): PayoutLedger {
+    const byUser = new Map<string, LedgerEntry>();
+    let totalVested = 0;
+    let totalPending = 0;
+
+    for (const item of audit) {
+      let entry = byUser.get(item.beneficiary);
+      if (!entry) {
+        entry = { user: item.beneficiary, vested: 0, pending: 0, items: [] };
+        byUser.set(item.beneficiary, entry);
+      }
+
+      entry.items.push(item);
+      if (item.status === 'vested') {
+        entry.vested += item.amount;
+        totalVested += item.amount;
+      } else {
+        entry.pending += item.amount;
+        totalPending += item.amount;
+      }
+    }
+
+    const entries = Array.from(byUser.values())
+      .sort((a, b) => (b.vested + b.pending) - (a.vested + a.pending));
+
+    return { entries, audit, skipped, totalVested, totalPending };
+  }
+}
@@ -0,0 +1,501 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { CANDIDATE_STATUSES, CandidateStatus, ReferralInput, Rejection } from '../models/types';
+import { NetworkSimulation, TargetCriterion } from '../simulation/NetworkSimulation';
+import { SimulationConfig } from '../simulation/SimulationConfig';
+import { AdoptionSpec, createAdoptionCurve, parseAdoptionSpec } from '../simulation/adoption';
+
+export interface ApiServerOptions {
+  network?: ReferralNetwork; // serve an existing network instead of a new empty one
+  simulation?: Partial<SimulationConfig>; // defaults for the simulation endpoints
+  maxBodyBytes?: number; // default 1 MB
+}
+
+export interface ApiRequest {
+  method: string;
+  url: string; // path plus query string, e.g. /top?k=5
+  body?: unknown; // sent as JSON
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * every error comes back as { error: { code, message, ...details } }
+ * code is the rejection status for refused mutations, otherwise one of these
+ */
+export type ApiErrorCode =
+  | Rejection['status']
+  | 'BAD_REQUEST'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INTERNAL';
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+type Params = Record<string, string>;
+type Handler = (params: Params, query: URLSearchParams, body: unknown) => ApiResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+const REJECTION_STATUS: Record<Rejection['status'], number> = {
+  SELF_REFERRAL: 422,
+  ALREADY_REFERRED: 409,
+  CYCLE: 409,
+  UNKNOWN_USER: 404,
+  NOT_REFERRED: 404,
+  INVALID_TRANSITION: 409
+};
+
+const REJECTION_MESSAGE: Record<Rejection['status'], string> = {
+  SELF_REFERRAL: 'users cannot refer themselves',
+  ALREADY_REFERRED: 'candidate already has a referrer',
+  CYCLE: 'referral would create a cycle',
+  UNKNOWN_USER: 'no such user',
+  NOT_REFERRED: 'candidate has no referrer',
+  INVALID_TRANSITION: 'candidate cannot move to that status'
+};
+
+const DEFAULT_MAX_BODY = 1024 * 1024;
+
+/**
+ * small JSON-over-HTTP front end for a ReferralNetwork so tools in other
+ * languages can use it. plain node http, nothing to install
+ *
+ * routes:
+ *   POST   /referrals                 { referrer, candidate, timestamp?, metadata? }
+ *   POST   /referrals/batch           { referrals: [...], atomic? }
+ *   GET    /referrals/:candidate
+ *   DELETE /referrals/:candidate
+ *   PUT    /referrals/:candidate/status  { status, at? }
+ *   GET    /users/:user
+ *   GET    /users/:user/reach
+ *   GET    /top?k=10
+ *   GET    /influencers?k=10
+ *   GET    /centrality?k=&normalized=&sampleSize=&seed=
+ *   GET    /conversion
+ *   POST   /simulate                  { prob, days, trials?, seed? }
+ *   POST   /simulate/days-to-target   { prob, target, confidence?, trials?, seed? }
+ *   POST   /simulate/min-bonus        { days, target, adoption, confidence?, trials?, seed? }
+ *
+ * inject() runs a request through the same routing without a socket, for tests
+ */
+export class ApiServer {
+  readonly network: ReferralNetwork;
+  private readonly simulation: Partial<SimulationConfig>;
+  private readonly maxBodyBytes: number;
+  private readonly routes: Route[] = [];
+  private server: Server | null = null;
+
+  constructor(options: ApiServerOptions = {}) {
+    this.network = options.network ?? new ReferralNetwork();
+    this.simulation = options.simulation ?? {};
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY;
+
+    this.route('POST', '/referrals', (_, __, body) => this.addReferral(body));
+    this.route('POST', '/referrals/batch', (_, __, body) => this.addBatch(body));
+    this.route('GET', '/referrals/:candidate', ({ candidate }) => this.getReferral(candidate));
+    this.route('DELETE', '/referrals/:candidate', ({ candidate }) => this.removeReferral(candidate));
+    this.route('PUT', '/referrals/:candidate/status', ({ candidate }, __, body) => this.setStatus(candidate, body));
+    this.route('GET', '/users/:user', ({ user }) => this.getUser(user));
+    this.route('GET', '/users/:user/reach', ({ user }) => this.getReach(user));
+    this.route('GET', '/top', (_, query) => ok(this.network.getTopReferrers(intParam(query, 'k', 10))));
+    this.route('GET', '/influencers', (_, query) => ok(this.network.getUniqueReachInfluencers(intParam(query, 'k', 10))));
+    this.route('GET', '/centrality', (_, query) => this.centrality(query));
+    this.route('GET', '/conversion', () => ok(this.network.getConversionRates()));
+    this.route('POST', '/simulate', (_, __, body) => this.simulate(body));
+    this.route('POST', '/simulate/days-to-target', (_, __, body) => this.daysToTarget(body));
+    this.route('POST', '/simulate/min-bonus', (_, __, body) => this.minBonus(body));
+  }
+
+  /**
+   * start listening, resolves with the port (pass 0 for any free one)
+   */
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    if (this.server) {
+      return Promise.reject(new Error('server is already listening'));
+    }
+
+    const server = createServer((req, res) => {
+      this.serve(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve((server.address() as AddressInfo).port));
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  /**
+   * in-process request, no network involved - same routing, validation and
+   * error mapping as a real request
+   */
+  async inject(request: ApiRequest): Promise<ApiResponse> {
+    const raw = request.body === undefined ? '' : JSON.stringify(request.body);
+    return this.dispatch(request.method, request.url, raw);
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let response: ApiResponse;
+    try {
+      const raw = await readBody(req, this.maxBodyBytes);
+      response = this.dispatch(req.method ?? 'GET', req.url ?? '/', raw);
+    } catch (err) {
+      response = errorResponse(err);
+    }
+
+    res.writeHead(response.status, { 'content-type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private dispatch(method: string, url: string, raw: string): ApiResponse {
+    try {
+      const { pathname, searchParams } = new URL(url, 'http://localhost');
+      const matches = this.routes
+        .map(route => ({ route, match: route.pattern.exec(pathname) }))
+        .filter(m => m.match !== null);
+
+      if (matches.length === 0) {
+        throw new ApiError(404, 'NOT_FOUND', `no route for ${pathname}`);
+      }
+      const hit = matches.find(m => m.route.method === method.toUpperCase());
+      if (!hit) {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${method} not allowed on ${pathname}`, {
+          allowed: matches.map(m => m.route.method)
+        });
+      }
+
+      const params: Params = {};
+      hit.route.keys.forEach((key, i) => {
+        params[key] = decodeURIComponent(hit.match![i + 1]);
+      });
+
+      return hit.route.handler(params, searchParams, parseBody(raw));
+    } catch (err) {
+      return errorResponse(err);
+    }
+  }
+
+  private route(method: string, path: string, handler: Handler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private addReferral(body: unknown): ApiResponse {
+    const input = referralInput(body);
+    const result = this.network.tryAddReferral(input.referrer, input.candidate, input);
+    if (result.status !== 'ok') {
+      throw rejectionError(result);
+    }
+    return { status: 201, body: this.network.getReferralEdge(input.candidate) };
+  }
+
+  private addBatch(body: unknown): ApiResponse {
+    const { referrals, atomic } = object(body);
+    if (!Array.isArray(referrals)) {
+      throw badRequest('referrals must be an array');
+    }
+    if (atomic !== undefined && typeof atomic !== 'boolean') {
+      throw badRequest('atomic must be a boolean');
+    }
+
+    const result = this.network.addReferrals(referrals.map(referralInput), { atomic });
+    return { status: result.committed ? 200 : 409, body: result };
+  }
+
+  private getReferral(candidate: string): ApiResponse {
+    const edge = this.network.getReferralEdge(candidate);
+    if (!edge) {
+      throw new ApiError(404, 'NOT_REFERRED', `${candidate} has no referrer`, { candidate });
+    }
+    return ok(edge);
+  }
+
+  private removeReferral(candidate: string): ApiResponse {
+    const referrer = this.network.getReferrer(candidate);
+    if (referrer === null) {
+      throw new ApiError(404, 'NOT_REFERRED', `${candidate} has no referrer`, { candidate });
+    }
+
+    const result = this.network.removeReferral(referrer, candidate);
+    if (result.status !== 'ok') {
+      throw rejectionError(result);
+    }
+    return ok({ removed: { referrer, candidate } });
+  }
+
+  private setStatus(candidate: string, body: unknown): ApiResponse {
+    const { status, at } = object(body);
+    if (typeof status !== 'string' || !CANDIDATE_STATUSES.includes(status as CandidateStatus)) {
+      throw badRequest(`status must be one of ${CANDIDATE_STATUSES.join(', ')}`);
+    }
+
+    const result = this.network.setCandidateStatus(candidate, status as CandidateStatus, { at: time(at, 'at') });
+    if (result.status !== 'ok') {
+      throw rejectionError(result);
+    }
+    return ok({ candidate, status, history: this.network.getStatusHistory(candidate) });
+  }
+
+  private getUser(user: string): ApiResponse {
+    this.requireUser(user);
+    return ok({
+      user,
+      referrer: this.network.getReferrer(user),
+      depth: this.network.getDepth(user),
+      directRefs: this.network.getDirectRefs(user),
+      totalReach: this.network.getTotalReach(user)
+    });
+  }
+
+  private getReach(user: string): ApiResponse {
+    this.requireUser(user);
+    return ok({ user, totalReach: this.network.getTotalReach(user), reach: this.network.getFullReach(user) });
+  }
+
+  private centrality(query: URLSearchParams): ApiResponse {
+    const ranking = this.network.getFlowCentralityRanking({
+      normalized: query.get('normalized') === 'true',
+      sampleSize: query.has('sampleSize') ? intParam(query, 'sampleSize', 0) : undefined,
+      seed: query.has('seed') ? intParam(query, 'seed', 0) : undefined
+    });
+    return ok(query.has('k') ? ranking.slice(0, intParam(query, 'k', 0)) : ranking);
+  }
+
+  private simulate(body: unknown): ApiResponse {
+    const input = object(body);
+    const prob = num(input, 'prob', { min: 0, max: 1 });
+    const days = num(input, 'days', { integer: true, min: 1 });
+    const sim = this.buildSimulation(input);
+
+    if (input.trials === undefined && input.seed === undefined) {
+      return ok({ daily: sim.simulate(prob, days) });
+    }
+
+    // per-trial paths can be huge, the bands are what callers want
+    const { daily } = sim.simulateStochastic(prob, days, {
+      trials: optionalNum(input, 'trials', { integer: true, min: 1 }),
+      seed: optionalNum(input, 'seed', { integer: true })
+    });
+    return ok({ daily });
+  }
+
+  private daysToTarget(body: unknown): ApiResponse {
+    const input = object(body);
+    const prob = num(input, 'prob', { min: 0, max: 1 });
+    const target = num(input, 'target', { min: 0 });
+    const days = this.buildSimulation(input).daysToTarget(prob, target, criterion(input));
+    return ok({ days: days === -1 ? null : days });
+  }
+
+  private minBonus(body: unknown): ApiResponse {
+    const input = object(body);
+    const days = num(input, 'days', { integer: true, min: 1 });
+    const target = num(input, 'target', { min: 0 });
+
+    let spec: AdoptionSpec;
+    if (typeof input.adoption === 'string') {
+      spec = parseAdoptionSpec(input.adoption);
+    } else if (input.adoption && typeof input.adoption === 'object') {
+      spec = input.adoption as AdoptionSpec;
+    } else {
+      throw badRequest('adoption must be a curve spec object or string like "linear:slope=0.0001"');
+    }
+
+    const curve = createAdoptionCurve(spec);
+    const bonus = this.buildSimulation(input).minBonusForTarget(days, target, curve, 1e-3, criterion(input));
+    return ok({ bonus });
+  }
+
+  /**
+   * server defaults, overridable per request; seedFromNetwork starts from
+   * the live network instead of blank referrers
+   */
+  private buildSimulation(input: Record<string, unknown>): NetworkSimulation {
+    const config: Partial<SimulationConfig> = {
+      ...this.simulation,
+      startingReferrers: optionalNum(input, 'startingReferrers', { integer: true, min: 0 }) ?? this.simulation.startingReferrers,
+      maxRefsPerUser: optionalNum(input, 'maxRefsPerUser', { integer: true, min: 1 }) ?? this.simulation.maxRefsPerUser,
+      conversionRate: optionalNum(input, 'conversionRate', { min: 0, max: 1 }) ?? this.simulation.conversionRate
+    };
+
+    if (input.seedFromNetwork !== undefined && typeof input.seedFromNetwork !== 'boolean') {
+      throw badRequest('seedFromNetwork must be a boolean');
+    }
+    if (input.seedFromNetwork) {
+      return NetworkSimulation.fromNetwork(this.network, {
+        model: config.model,
+        maxRefsPerUser: config.maxRefsPerUser,
+        conversionRate: config.conversionRate
+      });
+    }
+    return new NetworkSimulation(config);
+  }
+
+  private requireUser(user: string): void {
+    if (!this.network.hasUser(user)) {
+      throw rejectionError({ status: 'UNKNOWN_USER', user });
+    }
+  }
+}
+
+function ok(body: unknown): ApiResponse {
+  return { status: 200, body };
+}
+
+function badRequest(message: string): ApiError {
+  return new ApiError(400, 'BAD_REQUEST', message);
+}
+
+function rejectionError(rejection: Rejection): ApiError {
+  const { status, ...details } = rejection;
+  return new ApiError(REJECTION_STATUS[status], status, REJECTION_MESSAGE[status], details);
+}
+
+// validation problems in the library come out as RangeError / TypeError,
+// URIError is a badly escaped path
+function errorResponse(err: unknown): ApiResponse {
+  const error = err instanceof ApiError
+    ? err
+    : err instanceof RangeError || err instanceof TypeError || err instanceof URIError
+      ? badRequest(err.message)
+      : new ApiError(500, 'INTERNAL', 'internal error');
+
+  return {
+    status: error.status,
+    body: { error: { code: error.code, message: error.message, ...error.details } }
+  };
+}
+
+// past the limit we keep draining (so the client still gets a response) but stop buffering
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= limit) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > limit) {
+        reject(new ApiError(413, 'PAYLOAD_TOO_LARGE', `body over ${limit} bytes`));
+      } else {
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function parseBody(raw: string): unknown {
+  if (raw.trim() === '') return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw badRequest('body is not valid JSON');
+  }
+}
+
+function object(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw badRequest('body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function referralInput(body: unknown): ReferralInput {
+  const { referrer, candidate, timestamp, metadata } = object(body);
+  if (typeof referrer !== 'string' || referrer === '' || typeof candidate !== 'string' || candidate === '') {
+    throw badRequest('referrer and candidate must be non-empty strings');
+  }
+
+  if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null)) {
+    throw badRequest('metadata must be an object');
+  }
+
+  return { referrer, candidate, timestamp: time(timestamp, 'timestamp'), metadata: metadata as ReferralInput['metadata'] };
+}
+
+// epoch ms or anything Date.parse reads
+function time(value: unknown, key: string): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = typeof value === 'string' ? Date.parse(value) : value;
+  if (typeof ms !== 'number' || Number.isNaN(ms)) {
+    throw badRequest(`bad ${key} ${JSON.stringify(value)}`);
+  }
+  return ms;
+}
+
+interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+function num(input: Record<string, unknown>, key: string, rule: NumberRule = {}): number {
+  const value = input[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw badRequest(`${key} must be a number`);
+  }
+  if (rule.integer && !Number.isInteger(value)) throw badRequest(`${key} must be a whole number`);
+  if (rule.min !== undefined && value < rule.min) throw badRequest(`${key} must be >= ${rule.min}`);
+  if (rule.max !== undefined && value > rule.max) throw badRequest(`${key} must be <= ${rule.max}`);
+  return value;
+}
+
+function optionalNum(input: Record<string, unknown>, key: string, rule: NumberRule = {}): number | undefined {
+  return input[key] === undefined ? undefined : num(input, key, rule);
+}
+
+function criterion(input: Record<string, unknown>): TargetCriterion | undefined {
+  if (input.confidence === undefined) return undefined;
+  return {
+    confidence: num(input, 'confidence', { min: 0, max: 1 }),
+    trials: optionalNum(input, 'trials', { integer: true, min: 1 }),
+    seed: optionalNum(input, 'seed', { integer: true })
+  };
+}
+
+function intParam(query: URLSearchParams, key: string, fallback: number): number {
+  const raw = query.get(key);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isInteger(value) || value < 0) {
+    throw badRequest(`${key} must be a non-negative whole number, got "${raw}"`);
+  }
+  return value;
+}
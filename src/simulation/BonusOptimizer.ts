@@ -0,0 +1,120 @@
+import { AdoptionCurve } from './adoption';
+import { BonusScheduleSpec, createBonusSchedule, describeSchedule } from './bonusSchedule';
+import { NetworkSimulation } from './NetworkSimulation';
+
+export interface BonusOptimizerOptions {
+  days: number;
+  adoption: AdoptionCurve; // any shape - grid search doesn't need it to be monotonic
+  budget?: number; // cap on expected total spend (default no cap)
+  targetHires?: number; // best = cheapest plan that gets here, without it the most hires in budget
+}
+
+export interface PlanEvaluation {
+  schedule: BonusScheduleSpec;
+  label: string;
+  referrals: number; // expected, by the last day
+  hires: number; // referrals after the conversion rate
+  cost: number; // expected spend, every hire paid what the schedule offered when they were referred
+  costPerHire: number; // 0 without hires
+}
+
+export interface OptimizationResult {
+  best: PlanEvaluation | null; // null if nothing in budget reaches targetHires
+  frontier: PlanEvaluation[]; // in-budget plans nothing else beats on both cost and hires, cheapest first
+  evaluated: number;
+  withinBudget: number;
+}
+
+// float noise between plans that really tie
+const EPSILON = 1e-9;
+
+/**
+ * picks bonus schedules by total program cost instead of headline bonus
+ *
+ * each candidate schedule becomes a per-day / per-referral prob through the
+ * adoption curve and runs through NetworkSimulation.simulate, which reports
+ * how many referrals each capacity bucket made each day - that's what prices
+ * them. everything is compared on expected values
+ */
+export class BonusOptimizer {
+  private readonly days: number;
+  private readonly adoption: AdoptionCurve;
+  private readonly budget: number;
+  private readonly targetHires: number | undefined;
+
+  constructor(private readonly simulation: NetworkSimulation, options: BonusOptimizerOptions) {
+    if (!Number.isInteger(options.days) || options.days < 1) {
+      throw new RangeError(`days must be a positive integer, got ${options.days}`);
+    }
+    if (typeof options.adoption !== 'function') {
+      throw new TypeError('adoption must be a function of the bonus');
+    }
+    if (options.budget !== undefined && !(options.budget >= 0)) {
+      throw new RangeError(`budget must be >= 0, got ${options.budget}`);
+    }
+    if (options.targetHires !== undefined && !(options.targetHires >= 0)) {
+      throw new RangeError(`targetHires must be >= 0, got ${options.targetHires}`);
+    }
+
+    this.days = options.days;
+    this.adoption = options.adoption;
+    this.budget = options.budget ?? Infinity;
+    this.targetHires = options.targetHires;
+  }
+
+  /**
+   * expected referrals, hires and spend for one schedule
+   */
+  evaluate(spec: BonusScheduleSpec): PlanEvaluation {
+    const schedule = createBonusSchedule(spec);
+    const { conversionRate } = this.simulation.getConfig();
+    let cost = 0;
+
+    // made = referrals so far, so this one is their (made + 1)th
+    const daily = this.simulation.simulate(
+      (day, made) => this.adoption(schedule.bonusAt(day, made + 1)),
+      this.days,
+      (day, made, referrals) => {
+        cost += referrals * conversionRate * schedule.bonusAt(day, made + 1);
+      }
+    );
+
+    const referrals = daily[daily.length - 1];
+    const hires = referrals * conversionRate;
+    return {
+      schedule: spec,
+      label: describeSchedule(spec),
+      referrals,
+      hires,
+      cost,
+      costPerHire: hires > 0 ? cost / hires : 0
+    };
+  }
+
+  /**
+   * evaluate every candidate (see scheduleGrid) and keep the cost / hires
+   * pareto frontier of the ones inside the budget
+   */
+  optimize(candidates: BonusScheduleSpec[]): OptimizationResult {
+    const evaluations = candidates.map(spec => this.evaluate(spec));
+    const affordable = evaluations
+      .filter(plan => plan.cost <= this.budget)
+      .sort((a, b) => a.cost - b.cost || b.hires - a.hires);
+
+    // cheapest first, so a plan is on the frontier if it beats every cheaper plan's hires
+    const frontier: PlanEvaluation[] = [];
+    for (const plan of affordable) {
+      const last = frontier[frontier.length - 1];
+      if (!last || plan.hires > last.hires + EPSILON) {
+        frontier.push(plan);
+      }
+    }
+
+    const target = this.targetHires;
+    const best = target === undefined
+      ? frontier[frontier.length - 1] ?? null
+      : frontier.find(plan => plan.hires >= target - EPSILON) ?? null;
+
+    return { best, frontier, evaluated: evaluations.length, withinBudget: affordable.length };
+  }
+}
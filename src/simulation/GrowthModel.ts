@@ -0,0 +1,82 @@
+/**
+ * what a growth model gets to look at at the start of each day
+ */
+export interface GrowthState {
+  day: number; // 1-based
+  totalRefs: number; // cumulative referrals before today
+  activeReferrers: number;
+}
+
+/**
+ * decides how referrers behave day to day. NetworkSimulation does the
+ * bookkeeping (capacity, new referrers joining, monte carlo draws) and
+ * asks the model for the two probabilities below
+ */
+export interface GrowthModel {
+  readonly name: string;
+
+  // chance an active referrer makes a referral today
+  referralProb(baseProb: number, state: GrowthState): number;
+
+  // chance an active referrer goes dormant for good before today's draws
+  dormancyProb(state: GrowthState): number;
+}
+
+/**
+ * the original model - referrers keep going until they hit maxRefsPerUser
+ */
+export class CapacityGrowthModel implements GrowthModel {
+  readonly name = 'capacity';
+
+  referralProb(baseProb: number): number {
+    return baseProb;
+  }
+
+  dormancyProb(): number {
+    return 0;
+  }
+}
+
+/**
+ * saturating market - referrals get harder as we run out of people to refer
+ * p(day) = prob * (1 - totalRefs / marketSize)
+ */
+export class LogisticGrowthModel implements GrowthModel {
+  readonly name = 'logistic';
+
+  constructor(readonly marketSize: number) {
+    if (!(marketSize > 0) || !Number.isFinite(marketSize)) {
+      throw new RangeError(`marketSize must be a positive number, got ${marketSize}`);
+    }
+  }
+
+  referralProb(baseProb: number, state: GrowthState): number {
+    return baseProb * Math.max(0, 1 - state.totalRefs / this.marketSize);
+  }
+
+  dormancyProb(): number {
+    return 0;
+  }
+}
+
+/**
+ * capacity model plus attrition - each day every active referrer
+ * goes dormant with probability dailyChurn
+ */
+export class ChurnGrowthModel implements GrowthModel {
+  readonly name = 'churn';
+
+  constructor(readonly dailyChurn: number) {
+    if (!(dailyChurn >= 0 && dailyChurn <= 1)) {
+      throw new RangeError(`dailyChurn must be in [0, 1], got ${dailyChurn}`);
+    }
+  }
+
+  referralProb(baseProb: number): number {
+    return baseProb;
+  }
+
+  dormancyProb(): number {
+    return this.dailyChurn;
+  }
+}
@@ -1,65 +1,297 @@
+import { ReferralNetwork } from '../models/ReferralNetwork';
+import { createRng, percentile, sampleBinomial } from '../utils/random';
+import { resolveSimulationConfig, SimulationConfig } from './SimulationConfig';
+
+export interface StochasticOptions {
+  trials?: number; // how many independent runs (default 500)
+  seed?: number; // same seed = same results
+}
+
+/**
+ * "hit the target in at least `confidence` of trials" instead of on average
+ */
+export interface TargetCriterion extends StochasticOptions {
+  confidence: number; // e.g. 0.9 = 90% chance of hitting target
+}
+
+export interface DailyBand {
+  day: number;
+  mean: number;
+  variance: number;
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface StochasticResult {
+  daily: DailyBand[];
+  // cumulative referrals per trial, trials[t][day - 1]
+  trials: number[][];
+}
+
+/**
+ * base referral prob that changes by day and by how many referrals the referrer
+ * already made (0 before their first) - e.g. what a tiered or launch-week bonus does
+ */
+export type ProbSchedule = (day: number, made: number) => number;
+
+/**
+ * sees the expected new referrals from each capacity bucket as simulate() steps
+ * it only watches - passing one never changes what simulate() returns
+ */
+export type StepObserver = (day: number, made: number, referrals: number) => void;
+
+export interface FromNetworkOptions extends Partial<Omit<SimulationConfig, 'startingReferrers' | 'initialRefCounts'>> {}
+
+export interface ReferralProbEstimate {
+  mean: number; // average over everyone in the network
+  perUser: Map<string, number>;
+}
+
+export interface ProjectionOptions {
+  seed?: number;
+  idPrefix?: string; // synthetic users are named `${idPrefix}${day}-${n}`
+  referralProbs?: Map<string, number>; // per-user base prob, overrides prob for those users
+  maxNewUsers?: number; // stop early once this many synthetic users exist
+}
+
+const DEFAULT_TRIALS = 500;
+const DEFAULT_SEED = 1;
+const MAX_DAYS = 10000;
+export const DEFAULT_MAX_BONUS = 10000;
+
 export class NetworkSimulation {
-  private readonly startingReferrers = 100;
-  private readonly maxRefsPerUser = 10;
+  private readonly config: SimulationConfig;
+  // set when seeded from a real network, referrer ids line up with initialRefCounts
+  private seedNetwork: ReferralNetwork | null = null;
+  private seedUsers: string[] = [];
+
+  constructor(config: Partial<SimulationConfig> = {}) {
+    this.config = resolveSimulationConfig(config);
+  }
+
+  /**
+   * start from the people actually in the network instead of 100 blank referrers
+   * everyone is a potential referrer, their remaining capacity is
+   * maxRefsPerUser minus the direct refs they already have
+   */
+  static fromNetwork(network: ReferralNetwork, options: FromNetworkOptions = {}): NetworkSimulation {
+    const users = network.getAllUsers();
+    const sim = new NetworkSimulation({
+      ...options,
+      initialRefCounts: users.map(user => network.getDirectRefs(user).length)
+    });
+
+    sim.seedNetwork = network;
+    sim.seedUsers = users;
+    return sim;
+  }
+
+  /**
+   * rough per-user daily referral prob from history: a user can refer at most
+   * one person a day, so the bernoulli MLE is refs / days observed
+   */
+  static estimateReferralProb(network: ReferralNetwork, observedDays: number): ReferralProbEstimate {
+    if (!(observedDays > 0)) {
+      throw new RangeError(`observedDays must be positive, got ${observedDays}`);
+    }
+
+    const perUser = new Map<string, number>();
+    let sum = 0;
+
+    for (const user of network.getAllUsers()) {
+      const p = Math.min(1, network.getDirectRefs(user).length / observedDays);
+      perUser.set(user, p);
+      sum += p;
+    }
+
+    return { mean: perUser.size > 0 ? sum / perUser.size : 0, perUser };
+  }
+
+  getConfig(): SimulationConfig {
+    return { ...this.config };
+  }
 
   /**
-   * simulate growth over days with given prob
+   * simulate growth over days with given prob (or a schedule of them)
    * returns cumulative referrals at end of each day
+   * steps the expected number of referrers in each capacity bucket - the same
+   * steps the stochastic runs sample, so a flat prob, a schedule and the
+   * optimizer all agree with the monte carlo mean
    */
-  simulate(prob: number, days: number): number[] {
+  simulate(prob: number | ProbSchedule, days: number, observer?: StepObserver): number[] {
+    const active = this.initialBuckets();
     const dailyTotals: number[] = [];
-    let activeUsers = this.startingReferrers;
     let totalRefs = 0;
 
     for (let day = 1; day <= days; day++) {
-      // how many new refs we expect today
-      const expectedNewRefs = activeUsers * prob;
-      totalRefs += expectedNewRefs;
-
-      // figure out how many users hit their limit
-      const avgRefsPerUser = day * prob;
-      
-      // when users hit capacity they go inactive
-      if (avgRefsPerUser >= this.maxRefsPerUser) {
-        // most initial users should be inactive by now
-        activeUsers = Math.max(0, this.startingReferrers - 
-          Math.floor((day * prob - this.maxRefsPerUser + 1) * this.startingReferrers));
+      totalRefs += this.stepDay(active, prob, day, totalRefs, (n, p) => n * p, observer);
+      dailyTotals.push(totalRefs);
+    }
+
+    return dailyTotals;
+  }
+
+  /**
+   * expected cumulative hires per day - simulate() thinned by the conversion rate
+   */
+  simulateHires(prob: number, days: number): number[] {
+    return this.simulate(prob, days).map(total => total * this.config.conversionRate);
+  }
+
+  /**
+   * monte carlo version of simulate - every referrer flips a coin each day
+   * and goes inactive after maxRefsPerUser successes (or when the model says so)
+   * returns per-day mean/variance/percentiles across all trials
+   */
+  simulateStochastic(prob: number, days: number, options: StochasticOptions = {}): StochasticResult {
+    const { trials, seed } = this.resolveStochasticOptions(options);
+    const runs: number[][] = [];
+
+    for (let t = 0; t < trials; t++) {
+      runs.push(this.runTrial(prob, days, seed + t));
+    }
+
+    const daily: DailyBand[] = [];
+    for (let d = 0; d < days; d++) {
+      const values = runs.map(run => run[d]).sort((a, b) => a - b);
+      const mean = values.reduce((sum, v) => sum + v, 0) / trials;
+      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / trials;
+
+      daily.push({
+        day: d + 1,
+        mean,
+        variance,
+        p5: percentile(values, 0.05),
+        p50: percentile(values, 0.5),
+        p95: percentile(values, 0.95)
+      });
+    }
+
+    return { daily, trials: runs };
+  }
+
+  /**
+   * fraction of trials that reach target hires within the given days
+   */
+  hitProbability(prob: number, days: number, target: number, options: StochasticOptions = {}): number {
+    const { trials, seed } = this.resolveStochasticOptions(options);
+    let hits = 0;
+
+    for (let t = 0; t < trials; t++) {
+      const run = this.runTrial(prob, days, seed + t, target, true);
+      if (run.length > 0 && run[run.length - 1] >= target) {
+        hits++;
       }
+    }
 
-      // new referrals become active too
-      activeUsers += Math.floor(expectedNewRefs);
+    return hits / trials;
+  }
 
-      dailyTotals.push(totalRefs);
+  /**
+   * runs one stochastic trial person by person and returns the network it
+   * would produce - existing edges are copied over, new people get synthetic ids
+   * handy for running reach/influencer analytics on a forecast
+   */
+  projectNetwork(prob: number, days: number, options: ProjectionOptions = {}): ReferralNetwork {
+    const { model, maxRefsPerUser, initialRefCounts } = this.config;
+    const rng = createRng(options.seed ?? DEFAULT_SEED);
+    const idPrefix = options.idPrefix ?? 'sim-';
+    const maxNewUsers = options.maxNewUsers ?? 100000;
+    const projected = new ReferralNetwork();
+
+    // copy whatever we were seeded with
+    if (this.seedNetwork) {
+      for (const user of this.seedUsers) {
+        for (const candidate of this.seedNetwork.getDirectRefs(user)) {
+          const edge = this.seedNetwork.getReferralEdge(candidate)!;
+          projected.addReferral(user, candidate, { timestamp: edge.timestamp, metadata: edge.metadata });
+        }
+      }
     }
 
-    return dailyTotals;
+    let active: Array<{ id: string; made: number; baseProb: number }> = [];
+    for (let i = 0; i < this.config.startingReferrers; i++) {
+      const id = this.seedUsers[i] ?? `${idPrefix}0-${i}`;
+      const made = initialRefCounts ? initialRefCounts[i] : 0;
+      if (made < maxRefsPerUser) {
+        active.push({ id, made, baseProb: options.referralProbs?.get(id) ?? prob });
+      }
+    }
+
+    let totalRefs = 0;
+    let created = 0;
+
+    for (let day = 1; day <= days && created < maxNewUsers; day++) {
+      const state = { day, totalRefs, activeReferrers: active.length };
+      const dormancy = model.dormancyProb(state);
+      const stillActive: typeof active = [];
+      const joining: typeof active = [];
+      let n = 0;
+
+      for (const referrer of active) {
+        if (dormancy > 0 && rng() < dormancy) {
+          continue; // gone quiet for good
+        }
+
+        const refProb = Math.min(1, Math.max(0, model.referralProb(referrer.baseProb, state)));
+        if (created < maxNewUsers && rng() < refProb) {
+          const candidate = `${idPrefix}${day}-${n++}`;
+          projected.addReferral(referrer.id, candidate);
+          joining.push({ id: candidate, made: 0, baseProb: prob });
+          created++;
+          referrer.made++;
+        }
+
+        if (referrer.made < maxRefsPerUser) {
+          stillActive.push(referrer);
+        }
+      }
+
+      active = stillActive.concat(joining);
+      totalRefs += n;
+    }
+
+    return projected;
   }
 
   /**
-   * find minimum days to hit target using binary search
+   * find minimum days to hit target hires using binary search
+   * pass a criterion to plan against risk instead of the expected curve
    */
-  daysToTarget(prob: number, target: number): number {
-    if (prob <= 0) {
-      return -1; // impossible with zero prob
+  daysToTarget(prob: number, target: number, criterion?: TargetCriterion): number {
+    if (prob <= 0 || this.config.conversionRate === 0) {
+      return -1; // impossible with zero prob (or nobody ever getting hired)
+    }
+
+    if (criterion) {
+      return this.daysToTargetStochastic(prob, target, criterion);
     }
 
     // binary search setup
     let low = 1;
-    let high = Math.ceil(target / (this.startingReferrers * prob)) * 2;
+    const perDay = Math.max(1, this.config.startingReferrers) * prob * this.config.conversionRate;
+    let high = Math.max(1, Math.ceil(target / perDay) * 2);
 
     // expand upper bound if needed
-    while (high < 10000) {
-      const testRun = this.simulate(prob, high);
+    while (high < MAX_DAYS) {
+      const testRun = this.simulateHires(prob, high);
       if (testRun[testRun.length - 1] >= target) {
         break;
       }
       high *= 2;
     }
 
+    // saturating models may never get there
+    const capRun = this.simulateHires(prob, high);
+    if (capRun[capRun.length - 1] < target) {
+      return -1;
+    }
+
     // binary search for exact day
     while (low < high) {
       const mid = Math.floor((low + high) / 2);
-      const testRun = this.simulate(prob, mid);
+      const testRun = this.simulateHires(prob, mid);
       const finalTotal = testRun[testRun.length - 1];
 
       if (finalTotal >= target) {
@@ -76,21 +308,23 @@ export class NetworkSimulation {
    * find min bonus needed to hit target hires in given days
    * uses binary search on bonus amounts (multiples of $10)
    * time complexity: O(log(maxBonus) * simulation time)
+   * with a criterion, "hits target" means P(hires >= target) >= confidence
+   * maxBonus is where the search gives up ($10k should be enough for anyone)
    */
   minBonusForTarget(
     days: number,
     targetHires: number,
     adoptionFunc: (bonus: number) => number,
-    precision: number = 1e-3
+    precision: number = 1e-3,
+    criterion?: TargetCriterion,
+    maxBonus: number = DEFAULT_MAX_BONUS
   ): number | null {
-    const maxBonus = 10000; // $100k should be enough for anyone
-    
+    if (!(maxBonus > 0) || !Number.isFinite(maxBonus)) {
+      throw new RangeError(`maxBonus must be a positive number, got ${maxBonus}`);
+    }
+
     // check if even possible at max bonus
-    const maxProb = adoptionFunc(maxBonus);
-    const maxTest = this.simulate(maxProb, days);
-    const maxPossible = maxTest[maxTest.length - 1];
-    
-    if (maxPossible < targetHires) {
+    if (!this.meetsTarget(adoptionFunc(maxBonus), days, targetHires, criterion)) {
       return null; // sorry, impossible
     }
 
@@ -101,10 +335,8 @@ export class NetworkSimulation {
     while (highBonus - lowBonus > 10) { 
       const midBonus = Math.floor((lowBonus + highBonus) / 20) * 10; // round to $10
       const testProb = adoptionFunc(midBonus);
-      const testRun = this.simulate(testProb, days);
-      const finalHires = testRun[testRun.length - 1];
 
-      if (finalHires >= targetHires) {
+      if (this.meetsTarget(testProb, days, targetHires, criterion)) {
         highBonus = midBonus;
       } else {
         lowBonus = midBonus + 10;
@@ -114,9 +346,152 @@ export class NetworkSimulation {
     // double check our result works
     const resultBonus = Math.ceil(highBonus / 10) * 10;
     const checkProb = adoptionFunc(resultBonus);
-    const checkRun = this.simulate(checkProb, days);
-    const checkHires = checkRun[checkRun.length - 1];
 
-    return checkHires >= targetHires ? resultBonus : null;
+    return this.meetsTarget(checkProb, days, targetHires, criterion) ? resultBonus : null;
+  }
+
+  private meetsTarget(prob: number, days: number, target: number, criterion?: TargetCriterion): boolean {
+    if (criterion) {
+      this.checkConfidence(criterion.confidence);
+      return this.hitProbability(prob, days, target, criterion) >= criterion.confidence;
+    }
+
+    const run = this.simulateHires(prob, days);
+    return run[run.length - 1] >= target;
+  }
+
+  /**
+   * runs every trial until it hits target, then takes the day by which
+   * `confidence` of the trials had made it
+   */
+  private daysToTargetStochastic(prob: number, target: number, criterion: TargetCriterion): number {
+    this.checkConfidence(criterion.confidence);
+    const { trials, seed } = this.resolveStochasticOptions(criterion);
+
+    const hitDays: number[] = [];
+    for (let t = 0; t < trials; t++) {
+      const run = this.runTrial(prob, MAX_DAYS, seed + t, target, true);
+      if (run.length > 0 && run[run.length - 1] >= target) {
+        hitDays.push(run.length);
+      }
+    }
+
+    const needed = Math.ceil(criterion.confidence * trials);
+    if (hitDays.length < needed) {
+      return -1; // not enough trials ever got there
+    }
+
+    hitDays.sort((a, b) => a - b);
+    return hitDays[needed - 1];
+  }
+
+  /**
+   * one stochastic run. referrers are grouped by how many refs they made
+   * so far - they're interchangeable, so a binomial draw per group is the
+   * same as flipping a coin for each person
+   * with hires, each day's new referrals get hired with the conversion rate
+   * and the totals count those instead. stops early once stopAt is reached (if given)
+   */
+  private runTrial(prob: number, days: number, seed: number, stopAt?: number, hires: boolean = false): number[] {
+    const rng = createRng(seed);
+    const draw = (n: number, p: number) => sampleBinomial(rng, n, p);
+    const { conversionRate } = this.config;
+    const active = this.initialBuckets();
+    const dailyTotals: number[] = [];
+    let totalRefs = 0;
+    let total = 0;
+
+    for (let day = 1; day <= days; day++) {
+      const newRefs = this.stepDay(active, prob, day, totalRefs, draw);
+      totalRefs += newRefs;
+      // no extra draws at a rate of 1, so seeded runs match plain referral counts
+      total += hires && conversionRate < 1 ? draw(newRefs, conversionRate) : newRefs;
+      dailyTotals.push(total);
+
+      if (stopAt !== undefined && total >= stopAt) {
+        break;
+      }
+    }
+
+    return dailyTotals;
+  }
+
+  // active[i] = referrers who made i refs so far
+  private initialBuckets(): number[] {
+    const { maxRefsPerUser, startingReferrers, initialRefCounts } = this.config;
+    const active = new Array(maxRefsPerUser).fill(0);
+
+    if (!initialRefCounts) {
+      active[0] = startingReferrers;
+      return active;
+    }
+
+    for (const made of initialRefCounts) {
+      if (made < maxRefsPerUser) {
+        active[made]++;
+      }
+    }
+    return active;
+  }
+
+  /**
+   * advances the capacity buckets by one day, in place
+   * draw(n, p) is either the expectation (n * p) or a binomial sample
+   * returns the new referrals made today
+   */
+  private stepDay(
+    active: number[],
+    prob: number | ProbSchedule,
+    day: number,
+    totalRefs: number,
+    draw: (n: number, p: number) => number,
+    observer?: StepObserver
+  ): number {
+    const { model, maxRefsPerUser } = this.config;
+    const state = {
+      day,
+      totalRefs,
+      activeReferrers: active.reduce((sum, n) => sum + n, 0)
+    };
+
+    const dormancy = model.dormancyProb(state);
+    const probFor = (made: number) => {
+      const base = typeof prob === 'number' ? prob : prob(day, made);
+      return Math.min(1, Math.max(0, model.referralProb(base, state)));
+    };
+    let newRefs = 0;
+
+    // walk from the top so people who move up a bucket don't get a second draw
+    for (let made = maxRefsPerUser - 1; made >= 0; made--) {
+      if (dormancy > 0) {
+        active[made] -= draw(active[made], dormancy);
+      }
+
+      const successes = draw(active[made], probFor(made));
+      observer?.(day, made, successes);
+      active[made] -= successes;
+      if (made + 1 < maxRefsPerUser) {
+        active[made + 1] += successes; // otherwise they're maxed out
+      }
+      newRefs += successes;
+    }
+
+    // new referrals start referring too
+    active[0] += newRefs;
+    return newRefs;
+  }
+
+  private resolveStochasticOptions(options: StochasticOptions): Required<StochasticOptions> {
+    const trials = options.trials ?? DEFAULT_TRIALS;
+    if (!Number.isInteger(trials) || trials < 1) {
+      throw new RangeError(`trials must be a positive integer, got ${trials}`);
+    }
+    return { trials, seed: options.seed ?? DEFAULT_SEED };
+  }
+
+  private checkConfidence(confidence: number): void {
+    if (!(confidence > 0 && confidence <= 1)) {
+      throw new RangeError(`confidence must be in (0, 1], got ${confidence}`);
+    }
   }
 }
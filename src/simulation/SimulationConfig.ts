@@ -0,0 +1,59 @@
+import { CapacityGrowthModel, GrowthModel } from './GrowthModel';
+
+export interface SimulationConfig {
+  startingReferrers: number;
+  maxRefsPerUser: number; // referrers go inactive after this many
+  // share of referrals that end up hired - targets count hires, referral growth doesn't change
+  conversionRate: number;
+  model: GrowthModel;
+  // refs already made by each starting referrer, for seeding from real data
+  // (length overrides startingReferrers; anyone at maxRefsPerUser starts inactive)
+  initialRefCounts?: number[];
+}
+
+export const DEFAULT_SIMULATION_CONFIG: Readonly<Omit<SimulationConfig, 'model'>> = {
+  startingReferrers: 100,
+  maxRefsPerUser: 10,
+  conversionRate: 1
+};
+
+/**
+ * fill in defaults and sanity check everything
+ * throws RangeError/TypeError on bad values so mistakes show up at construction time
+ */
+export function resolveSimulationConfig(config: Partial<SimulationConfig> = {}): SimulationConfig {
+  const resolved: SimulationConfig = {
+    startingReferrers: config.startingReferrers ?? DEFAULT_SIMULATION_CONFIG.startingReferrers,
+    maxRefsPerUser: config.maxRefsPerUser ?? DEFAULT_SIMULATION_CONFIG.maxRefsPerUser,
+    conversionRate: config.conversionRate ?? DEFAULT_SIMULATION_CONFIG.conversionRate,
+    model: config.model ?? new CapacityGrowthModel(),
+    initialRefCounts: config.initialRefCounts
+  };
+
+  if (resolved.initialRefCounts) {
+    const bad = resolved.initialRefCounts.find(n => !Number.isInteger(n) || n < 0);
+    if (bad !== undefined) {
+      throw new RangeError(`initialRefCounts must be non-negative integers, got ${bad}`);
+    }
+    resolved.startingReferrers = resolved.initialRefCounts.length;
+  }
+
+  if (!Number.isInteger(resolved.startingReferrers) || resolved.startingReferrers < 0) {
+    throw new RangeError(`startingReferrers must be a non-negative integer, got ${resolved.startingReferrers}`);
+  }
+
+  if (!Number.isInteger(resolved.maxRefsPerUser) || resolved.maxRefsPerUser < 1) {
+    throw new RangeError(`maxRefsPerUser must be a positive integer, got ${resolved.maxRefsPerUser}`);
+  }
+
+  if (!(resolved.conversionRate >= 0 && resolved.conversionRate <= 1)) {
+    throw new RangeError(`conversionRate must be in [0, 1], got ${resolved.conversionRate}`);
+  }
+
+  const { model } = resolved;
+  if (typeof model.referralProb !== 'function' || typeof model.dormancyProb !== 'function') {
+    throw new TypeError('model must implement referralProb and dormancyProb');
+  }
+
+  return resolved;
+}
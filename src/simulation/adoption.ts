@@ -0,0 +1,153 @@
+/**
+ * adoption curves: bonus in dollars -> daily referral prob
+ * minBonusForTarget binary searches over these, so they should never go down
+ * as the bonus goes up
+ */
+export type AdoptionCurve = (bonus: number) => number;
+
+export type AdoptionSpec =
+  | { type: 'linear'; slope: number; max?: number } // slope * bonus, capped at max (default 1)
+  | { type: 'step'; threshold: number; high: number; low?: number } // low below threshold, high from it on
+  | { type: 'logistic'; max: number; midpoint: number; steepness: number } // max / (1 + e^(-steepness (bonus - midpoint)))
+  | { type: 'power'; scale: number; exponent: number; max?: number } // scale * bonus^exponent, capped at max (default 1)
+  | { type: 'points'; points: Array<[number, number]> }; // straight lines between (bonus, prob) points, flat past the ends
+
+/**
+ * build the curve function, throws RangeError on anything that isn't a
+ * non-decreasing curve inside [0, 1]
+ */
+export function createAdoptionCurve(spec: AdoptionSpec): AdoptionCurve {
+  switch (spec.type) {
+    case 'linear': {
+      const max = spec.max ?? 1;
+      checkProb('max', max);
+      checkNonNegative('slope', spec.slope);
+      return bonus => Math.min(max, spec.slope * bonus);
+    }
+
+    case 'step': {
+      const low = spec.low ?? 0;
+      checkProb('low', low);
+      checkProb('high', spec.high);
+      checkNonNegative('threshold', spec.threshold);
+      if (spec.high < low) {
+        throw new RangeError(`high (${spec.high}) must be >= low (${low})`);
+      }
+      return bonus => (bonus >= spec.threshold ? spec.high : low);
+    }
+
+    case 'logistic': {
+      checkProb('max', spec.max);
+      checkNonNegative('steepness', spec.steepness);
+      if (!Number.isFinite(spec.midpoint)) {
+        throw new RangeError(`midpoint must be a number, got ${spec.midpoint}`);
+      }
+      return bonus => spec.max / (1 + Math.exp(-spec.steepness * (bonus - spec.midpoint)));
+    }
+
+    case 'power': {
+      const max = spec.max ?? 1;
+      checkProb('max', max);
+      checkNonNegative('scale', spec.scale);
+      checkNonNegative('exponent', spec.exponent);
+      return bonus => Math.min(max, spec.scale * Math.max(0, bonus) ** spec.exponent);
+    }
+
+    case 'points': {
+      const points = spec.points.slice().sort((a, b) => a[0] - b[0]);
+      if (points.length === 0) {
+        throw new RangeError('points curve needs at least one point');
+      }
+      points.forEach(([bonus, prob], i) => {
+        if (!Number.isFinite(bonus)) throw new RangeError(`point bonus must be a number, got ${bonus}`);
+        checkProb(`prob at ${bonus}`, prob);
+        if (i > 0 && prob < points[i - 1][1]) {
+          throw new RangeError(`points must not go down as the bonus goes up (${bonus} -> ${prob})`);
+        }
+      });
+      return bonus => interpolate(points, bonus);
+    }
+
+    default:
+      throw new TypeError(`unknown adoption curve type: ${(spec as { type: unknown }).type}`);
+  }
+}
+
+/**
+ * parse the compact form used on the command line:
+ *   linear:slope=0.00005,max=0.1
+ *   step:threshold=500,high=0.08,low=0.01
+ *   logistic:max=0.1,midpoint=1000,steepness=0.005
+ *   power:scale=0.002,exponent=0.5,max=0.1
+ *   points:0=0,500=0.03,2000=0.1
+ */
+export function parseAdoptionSpec(text: string): AdoptionSpec {
+  const colon = text.indexOf(':');
+  const type = colon === -1 ? text : text.slice(0, colon);
+  const body = colon === -1 ? '' : text.slice(colon + 1);
+  const pairs = body.split(',').filter(part => part.trim() !== '').map(part => {
+    const [key, value] = part.split('=');
+    const num = Number(value);
+    if (value === undefined || value.trim() === '' || !Number.isFinite(num)) {
+      throw new RangeError(`bad adoption curve parameter "${part}", expected key=number`);
+    }
+    return [key.trim(), num] as [string, number];
+  });
+
+  if (type === 'points') {
+    return {
+      type,
+      points: pairs.map(([bonus, prob]): [number, number] => {
+        const x = Number(bonus);
+        if (!Number.isFinite(x)) throw new RangeError(`bad point bonus "${bonus}"`);
+        return [x, prob];
+      })
+    };
+  }
+
+  const params = new Map(pairs);
+  const need = (key: string): number => {
+    const value = params.get(key);
+    if (value === undefined) throw new RangeError(`${type} adoption curve needs ${key}=...`);
+    return value;
+  };
+
+  switch (type) {
+    case 'linear':
+      return { type, slope: need('slope'), max: params.get('max') };
+    case 'step':
+      return { type, threshold: need('threshold'), high: need('high'), low: params.get('low') };
+    case 'logistic':
+      return { type, max: need('max'), midpoint: need('midpoint'), steepness: need('steepness') };
+    case 'power':
+      return { type, scale: need('scale'), exponent: need('exponent'), max: params.get('max') };
+    default:
+      throw new RangeError(`unknown adoption curve "${type}", expected linear, step, logistic, power or points`);
+  }
+}
+
+function interpolate(points: Array<[number, number]>, bonus: number): number {
+  if (bonus <= points[0][0]) return points[0][1];
+
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (bonus <= x1) {
+      const [x0, y0] = points[i - 1];
+      return x1 === x0 ? y1 : y0 + ((y1 - y0) * (bonus - x0)) / (x1 - x0);
+    }
+  }
+
+  return points[points.length - 1][1];
+}
+
+function checkProb(name: string, value: number): void {
+  if (!(value >= 0 && value <= 1)) {
+    throw new RangeError(`${name} must be in [0, 1], got ${value}`);
+  }
+}
+
+function checkNonNegative(name: string, value: number): void {
+  if (!(value >= 0) || !Number.isFinite(value)) {
+    throw new RangeError(`${name} must be a non-negative number, got ${value}`);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * bonus schedules: what a referral pays depending on when it's made and how
+ * many the referrer already made. the optimizer turns these into a ProbSchedule
+ * through an adoption curve
+ */
+export type BonusScheduleSpec =
+  | { type: 'flat'; amount: number }
+  // periods in day order, each paying its amount through untilDay (inclusive), after that `after`
+  | { type: 'timed'; periods: Array<{ untilDay: number; amount: number }>; after: number }
+  // amounts[0] for someone's 1st referral, amounts[1] for the 2nd, ... the last one repeats
+  | { type: 'tiered'; amounts: number[] };
+
+/**
+ * search space for scheduleGrid - every amount as a flat bonus, plus the
+ * launch-boost and escalating variants built from the same amounts
+ */
+export interface ScheduleGrid {
+  amounts: number[]; // bonus levels to try, e.g. 0, 250, ..., 5000
+  launchDays?: number[]; // also try a higher bonus through day N, then a lower one
+  tierSteps?: number[]; // also try bonuses that go up by this much with each referral
+  tiers?: number; // how many steps an escalating schedule has before it levels off (default 3)
+}
+
+export interface BonusSchedule {
+  readonly spec: BonusScheduleSpec;
+  // bonus for a referral made on `day` (1-based) that is the referrer's `nth` (1-based)
+  bonusAt(day: number, nth: number): number;
+}
+
+/**
+ * build the schedule, throws RangeError on negative amounts or periods out of order
+ */
+export function createBonusSchedule(spec: BonusScheduleSpec): BonusSchedule {
+  switch (spec.type) {
+    case 'flat': {
+      checkAmount('amount', spec.amount);
+      return { spec, bonusAt: () => spec.amount };
+    }
+
+    case 'timed': {
+      checkAmount('after', spec.after);
+      spec.periods.forEach(({ untilDay, amount }, i) => {
+        checkAmount(`amount until day ${untilDay}`, amount);
+        if (!Number.isInteger(untilDay) || untilDay < 1 || (i > 0 && untilDay <= spec.periods[i - 1].untilDay)) {
+          throw new RangeError(`periods need increasing whole untilDay values, got ${untilDay}`);
+        }
+      });
+      return {
+        spec,
+        bonusAt: day => spec.periods.find(period => day <= period.untilDay)?.amount ?? spec.after
+      };
+    }
+
+    case 'tiered': {
+      if (spec.amounts.length === 0) {
+        throw new RangeError('tiered schedule needs at least one amount');
+      }
+      spec.amounts.forEach((amount, i) => checkAmount(`tier ${i + 1}`, amount));
+      return { spec, bonusAt: (_, nth) => spec.amounts[Math.min(nth, spec.amounts.length) - 1] };
+    }
+
+    default:
+      throw new TypeError(`unknown bonus schedule type: ${(spec as { type: unknown }).type}`);
+  }
+}
+
+/**
+ * every schedule in the grid, O(amounts^2 * launchDays + amounts * tierSteps)
+ */
+export function scheduleGrid(grid: ScheduleGrid): BonusScheduleSpec[] {
+  const amounts = Array.from(new Set(grid.amounts)).sort((a, b) => a - b);
+  if (amounts.length === 0) {
+    throw new RangeError('schedule grid needs at least one amount');
+  }
+  amounts.forEach(amount => checkAmount('grid amount', amount));
+  const tiers = grid.tiers ?? 3;
+  if (!Number.isInteger(tiers) || tiers < 2) {
+    throw new RangeError(`tiers must be a whole number >= 2, got ${tiers}`);
+  }
+
+  const specs: BonusScheduleSpec[] = amounts.map(amount => ({ type: 'flat', amount }));
+
+  for (const untilDay of grid.launchDays ?? []) {
+    amounts.forEach((after, i) => {
+      for (const amount of amounts.slice(i + 1)) {
+        specs.push({ type: 'timed', periods: [{ untilDay, amount }], after });
+      }
+    });
+  }
+
+  for (const step of grid.tierSteps ?? []) {
+    checkAmount('tier step', step);
+    if (step === 0) continue; // that's just flat
+    for (const start of amounts) {
+      specs.push({ type: 'tiered', amounts: Array.from({ length: tiers }, (_, i) => start + i * step) });
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * short human label, e.g. "$1000 to day 7, then $250"
+ */
+export function describeSchedule(spec: BonusScheduleSpec): string {
+  switch (spec.type) {
+    case 'flat':
+      return `$${spec.amount} flat`;
+    case 'timed':
+      return [...spec.periods.map(p => `$${p.amount} to day ${p.untilDay}`), `then $${spec.after}`].join(', ');
+    case 'tiered':
+      return `$${spec.amounts.join(' / $')} per referral`;
+  }
+}
+
+function checkAmount(name: string, value: number): void {
+  if (!(value >= 0) || !Number.isFinite(value)) {
+    throw new RangeError(`${name} must be a non-negative number, got ${value}`);
+  }
+}
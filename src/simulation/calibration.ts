@@ -0,0 +1,334 @@
+import { AdoptionCurve, AdoptionSpec, createAdoptionCurve } from './adoption';
+import { invertMatrix, nelderMead, normalQuantile, numericHessian } from '../utils/optimize';
+
+/**
+ * fitting prob and adoption curves to past campaigns
+ *
+ * every observation is one day: `activeReferrers` people could refer, the
+ * bonus on offer was `bonus`, and `referrals` of them did. that's a binomial
+ * draw with the curve's prob, so everything here is plain maximum likelihood
+ */
+export interface CalibrationObservation {
+  bonus: number;
+  activeReferrers: number;
+  referrals: number;
+}
+
+export type AdoptionModel = 'linear' | 'logistic' | 'power';
+
+export interface CalibrationOptions {
+  confidence?: number; // for the parameter intervals (default 0.95)
+}
+
+export interface ParameterEstimate {
+  value: number;
+  interval: [number, number] | null; // wald interval, null if the data can't pin the parameter down
+}
+
+export interface FitQuality {
+  logLikelihood: number;
+  aic: number; // lower is better, only comparable on the same observations
+  bic: number;
+  deviance: number; // against the saturated model, ~ chi-square(degreesOfFreedom) if the model fits
+  pearsonChiSquare: number;
+  degreesOfFreedom: number;
+  observations: number;
+}
+
+export interface ProbFit {
+  prob: ParameterEstimate; // ready for simulate / daysToTarget
+  fit: FitQuality;
+}
+
+export interface AdoptionFit {
+  model: AdoptionModel;
+  params: Record<string, ParameterEstimate>;
+  spec: AdoptionSpec;
+  adoption: AdoptionCurve; // ready for minBonusForTarget / BonusOptimizer
+  fit: FitQuality;
+  converged: boolean;
+}
+
+// keeps log(p) finite when a curve says 0 or 1 on a day that disagrees
+const P_FLOOR = 1e-12;
+
+// how a parameter maps to the real line for its interval
+interface Link {
+  to: (x: number) => number;
+  from: (y: number) => number;
+}
+
+const LOG: Link = { to: Math.log, from: Math.exp };
+const LOGIT: Link = { to: x => Math.log(x / (1 - x)), from: y => 1 / (1 + Math.exp(-y)) };
+const IDENTITY: Link = { to: x => x, from: y => y };
+
+/**
+ * the optimizer works on unconstrained u, `params` turns that into the curve's
+ * parameters. bonusScale (the largest bonus seen) keeps u around 1 whatever
+ * currency the bonuses are in
+ */
+interface ModelDef {
+  names: string[];
+  links: Link[];
+  starts: (data: Prepared) => number[][]; // a few places to start from, the best fit wins
+  params: (u: number[], bonusScale: number) => number[];
+  spec: (params: number[]) => AdoptionSpec;
+}
+
+const MODELS: Record<AdoptionModel, ModelDef> = {
+  // p = min(max, slope * bonus)
+  linear: {
+    names: ['slope', 'max'],
+    links: [LOG, LOGIT],
+    // the cap makes the likelihood lumpy, so try putting the corner at a few bonuses
+    starts: data => {
+      const max = clampStart(data.highestRate);
+      return [0.25, 0.5, 0.75, 1].map(corner => [Math.log(max / corner), LOGIT.to(max)]);
+    },
+    params: ([u0, u1], scale) => [Math.exp(u0) / scale, LOGIT.from(u1)],
+    spec: ([slope, max]) => ({ type: 'linear', slope, max })
+  },
+  // p = max / (1 + e^(-steepness (bonus - midpoint)))
+  logistic: {
+    names: ['max', 'midpoint', 'steepness'],
+    links: [LOGIT, IDENTITY, LOG],
+    starts: data => [0.25, 0.5, 0.75].map(midpoint => [LOGIT.to(clampStart(data.highestRate * 1.2)), midpoint, Math.log(8)]),
+    params: ([u0, u1, u2], scale) => [LOGIT.from(u0), u1 * scale, Math.exp(u2) / scale],
+    spec: ([max, midpoint, steepness]) => ({ type: 'logistic', max, midpoint, steepness })
+  },
+  // p = min(1, scale * bonus^exponent), u0 is the log prob at the largest bonus
+  power: {
+    names: ['scale', 'exponent'],
+    links: [LOG, LOG],
+    starts: data => [[Math.log(clampStart(data.highestRate)), 0]],
+    params: ([u0, u1], scale) => {
+      const exponent = Math.exp(u1);
+      return [Math.exp(u0) / scale ** exponent, exponent];
+    },
+    spec: ([scale, exponent]) => ({ type: 'power', scale, exponent })
+  }
+};
+
+interface Prepared {
+  observations: CalibrationObservation[];
+  logChoose: number; // sum of log C(n, r), so logLikelihood is the real one
+  saturated: number; // log-likelihood with every day at its own rate
+  trials: number;
+  pooled: number; // total referrals / total referrer-days
+  highestRate: number; // best single day, for starting points
+  bonusScale: number;
+}
+
+/**
+ * one prob for every day, ignoring the bonus - what `simulate` wants when the
+ * bonus isn't changing. closed form: total referrals / total referrer-days
+ */
+export function fitReferralProb(observations: CalibrationObservation[], options: CalibrationOptions = {}): ProbFit {
+  const data = prepare(observations);
+  const z = zFor(options);
+  const p = data.pooled;
+
+  // var(logit p) = 1 / (n p (1 - p)), nothing to say at the edges
+  let interval: [number, number] | null = null;
+  if (p > 0 && p < 1) {
+    const se = Math.sqrt(1 / (data.trials * p * (1 - p)));
+    const center = LOGIT.to(p);
+    interval = [LOGIT.from(center - z * se), LOGIT.from(center + z * se)];
+  }
+
+  return { prob: { value: p, interval }, fit: quality(data, () => p, 1) };
+}
+
+/**
+ * maximum likelihood fit of one adoption curve
+ * throws RangeError on empty or impossible observations
+ */
+export function fitAdoptionCurve(
+  observations: CalibrationObservation[],
+  model: AdoptionModel,
+  options: CalibrationOptions = {}
+): AdoptionFit {
+  const def = MODELS[model];
+  if (!def) {
+    throw new TypeError(`unknown adoption model: ${model}, expected linear, logistic or power`);
+  }
+  const data = prepare(observations);
+  const z = zFor(options);
+
+  const curveAt = (u: number[]) => createAdoptionCurve(def.spec(def.params(u, data.bonusScale)));
+  const negLogLik = (u: number[]) => {
+    let curve: AdoptionCurve;
+    try {
+      curve = curveAt(u);
+    } catch {
+      return Infinity; // the optimizer wandered somewhere the curve isn't defined
+    }
+    return -logLikelihood(data, curve);
+  };
+
+  // restart once from where each run stopped, nelder-mead likes to stall early
+  const result = def.starts(data)
+    .map(start => nelderMead(negLogLik, nelderMead(negLogLik, start).x, { step: 0.1 }))
+    .reduce((best, run) => (run.value < best.value ? run : best));
+  const u = result.x;
+  const values = def.params(u, data.bonusScale);
+
+  const covariance = invertMatrix(numericHessian(negLogLik, u));
+  const params: Record<string, ParameterEstimate> = {};
+  def.names.forEach((name, i) => {
+    params[name] = { value: values[i], interval: covariance && interval(def, data.bonusScale, covariance, u, i, z) };
+  });
+
+  const spec = def.spec(values);
+  const adoption = createAdoptionCurve(spec);
+  return {
+    model,
+    params,
+    spec,
+    adoption,
+    fit: quality(data, adoption, def.names.length),
+    converged: result.converged
+  };
+}
+
+/**
+ * fit every model (or the ones asked for), best AIC first
+ */
+export function fitAdoptionCurves(
+  observations: CalibrationObservation[],
+  models: AdoptionModel[] = ['linear', 'logistic', 'power'],
+  options: CalibrationOptions = {}
+): AdoptionFit[] {
+  return models
+    .map(model => fitAdoptionCurve(observations, model, options))
+    .sort((a, b) => a.fit.aic - b.fit.aic);
+}
+
+/**
+ * delta method: wald interval for link(param) from the covariance of u, then
+ * back through the link so the ends stay in range
+ */
+function interval(def: ModelDef, bonusScale: number, covariance: number[][], u: number[], i: number, z: number): [number, number] | null {
+  const h = 1e-5;
+  const linked = (at: number[]) => def.links[i].to(def.params(at, bonusScale)[i]);
+  const gradient = u.map((_, j) => {
+    const up = u.slice();
+    const down = u.slice();
+    up[j] += h;
+    down[j] -= h;
+    return (linked(up) - linked(down)) / (2 * h);
+  });
+
+  let variance = 0;
+  for (let a = 0; a < u.length; a++) {
+    for (let b = 0; b < u.length; b++) {
+      variance += gradient[a] * covariance[a][b] * gradient[b];
+    }
+  }
+  if (!(variance > 0) || !Number.isFinite(variance)) return null;
+
+  const center = linked(u);
+  const se = Math.sqrt(variance);
+  return [def.links[i].from(center - z * se), def.links[i].from(center + z * se)];
+}
+
+function prepare(observations: CalibrationObservation[]): Prepared {
+  if (observations.length === 0) {
+    throw new RangeError('calibration needs at least one observation');
+  }
+
+  let logChoose = 0;
+  let saturated = 0;
+  let trials = 0;
+  let successes = 0;
+  let highestRate = 0;
+  let bonusScale = 0;
+
+  observations.forEach(({ bonus, activeReferrers: n, referrals: r }, i) => {
+    if (!(bonus >= 0) || !Number.isFinite(bonus)) {
+      throw new RangeError(`observation ${i}: bonus must be a non-negative number, got ${bonus}`);
+    }
+    if (!Number.isInteger(n) || n < 0) {
+      throw new RangeError(`observation ${i}: activeReferrers must be a whole number >= 0, got ${n}`);
+    }
+    if (!Number.isInteger(r) || r < 0 || r > n) {
+      throw new RangeError(`observation ${i}: referrals must be a whole number in [0, ${n}], got ${r}`);
+    }
+
+    for (let k = 1; k <= r; k++) {
+      logChoose += Math.log((n - r + k) / k);
+    }
+    saturated += xLogY(r, r / n) + xLogY(n - r, (n - r) / n);
+    trials += n;
+    successes += r;
+    if (n > 0) highestRate = Math.max(highestRate, r / n);
+    bonusScale = Math.max(bonusScale, bonus);
+  });
+
+  if (trials === 0) {
+    throw new RangeError('calibration needs at least one day with active referrers');
+  }
+
+  return {
+    observations,
+    logChoose,
+    saturated,
+    trials,
+    pooled: successes / trials,
+    highestRate,
+    bonusScale: bonusScale || 1
+  };
+}
+
+function logLikelihood(data: Prepared, curve: AdoptionCurve): number {
+  let total = data.logChoose;
+  for (const { bonus, activeReferrers: n, referrals: r } of data.observations) {
+    const p = clampProb(curve(bonus));
+    total += r * Math.log(p) + (n - r) * Math.log(1 - p);
+  }
+  return total;
+}
+
+function quality(data: Prepared, curve: AdoptionCurve, parameters: number): FitQuality {
+  const logL = logLikelihood(data, curve);
+  const count = data.observations.length;
+
+  let pearsonChiSquare = 0;
+  for (const { bonus, activeReferrers: n, referrals: r } of data.observations) {
+    if (n === 0) continue;
+    const p = clampProb(curve(bonus));
+    pearsonChiSquare += (r - n * p) ** 2 / (n * p * (1 - p));
+  }
+
+  return {
+    logLikelihood: logL,
+    aic: 2 * parameters - 2 * logL,
+    bic: parameters * Math.log(count) - 2 * logL,
+    deviance: Math.max(0, 2 * (data.saturated + data.logChoose - logL)),
+    pearsonChiSquare,
+    degreesOfFreedom: count - parameters,
+    observations: count
+  };
+}
+
+function zFor(options: CalibrationOptions): number {
+  const confidence = options.confidence ?? 0.95;
+  if (!(confidence > 0 && confidence < 1)) {
+    throw new RangeError(`confidence must be in (0, 1), got ${confidence}`);
+  }
+  return normalQuantile(0.5 + confidence / 2);
+}
+
+function clampProb(p: number): number {
+  return Math.min(1 - P_FLOOR, Math.max(P_FLOOR, p));
+}
+
+// starting guesses need to stay strictly inside (0, 1)
+function clampStart(p: number): number {
+  return Math.min(0.99, Math.max(1e-4, p));
+}
+
+// 0 log 0 = 0
+function xLogY(x: number, y: number): number {
+  return x === 0 ? 0 : x * Math.log(y);
+}
@@ -0,0 +1,352 @@
+import { closeSync, existsSync, fstatSync, fsyncSync, openSync, readFileSync, renameSync, truncateSync, writeSync } from 'fs';
+import { ReferralEdge, UserAttributes } from '../models/types';
+import { InMemoryStore } from './InMemoryStore';
+import { ReferralStore } from './ReferralStore';
+
+export interface FileJournalOptions {
+  fsync?: boolean; // fsync after every write - slower, survives power loss (default false)
+}
+
+export interface JournalStats {
+  records: number; // put/del lines in the file, header and batch markers aside
+  edges: number; // edges they add up to right now
+}
+
+const JOURNAL_VERSION = 1;
+
+type JournalRecord =
+  | { op: 'put'; edge: ReferralEdge }
+  | { op: 'del'; candidate: string }
+  | { op: 'attrs'; user: string; attributes: UserAttributes }
+  | { op: 'delattrs'; user: string };
+
+type BatchMarker = { op: 'begin' } | { op: 'commit' };
+
+/**
+ * append-only journal on disk, one JSON line per put/delete (of an edge or
+ * of someone's attributes)
+ *
+ * opening the file replays it into memory, so the network comes back after a
+ * restart. deletes and re-links leave dead lines behind - compact() rewrites the
+ * file with just the live edges. a half-written last line (crash mid-append) is
+ * dropped on replay, anything broken before that is an error
+ *
+ * writes inside a batch (one network mutation or transaction, see
+ * ReferralStore.beginBatch) are held back until the batch ends, then written
+ * as each touched edge / attribute set's final state between begin and commit
+ * markers. a rolled back transaction writes nothing, and a batch that never
+ * got its commit line (crash mid-write) is skipped on replay
+ *
+ * the live edges are also kept in memory for the lookups, so this buys
+ * durability, not a bigger-than-RAM network - the whole network still has to
+ * fit in memory, see the README
+ */
+export class FileJournalStore implements ReferralStore {
+  private readonly state = new InMemoryStore();
+  private readonly fsync: boolean;
+  private fd: number | null = null;
+  private records = 0;
+  // open batch: how deep, and what each touched key looked like before it
+  private batchDepth = 0;
+  private touched = new Map<string, string | undefined>();
+
+  constructor(private readonly path: string, options: FileJournalOptions = {}) {
+    this.fsync = options.fsync ?? false;
+
+    if (existsSync(path)) {
+      this.replay();
+    }
+    this.open();
+  }
+
+  getReferrer(candidate: string): string | undefined {
+    return this.state.getReferrer(candidate);
+  }
+
+  getEdge(candidate: string): ReferralEdge | undefined {
+    return this.state.getEdge(candidate);
+  }
+
+  getChildren(user: string): Iterable<string> {
+    return this.state.getChildren(user);
+  }
+
+  hasUser(user: string): boolean {
+    return this.state.hasUser(user);
+  }
+
+  users(): Iterable<string> {
+    return this.state.users();
+  }
+
+  referrers(): Iterable<string> {
+    return this.state.referrers();
+  }
+
+  edges(): Iterable<ReferralEdge> {
+    return this.state.edges();
+  }
+
+  putEdge(edge: ReferralEdge): void {
+    this.write(`edge:${edge.candidate}`, { op: 'put', edge });
+    this.state.putEdge(edge);
+  }
+
+  deleteEdge(candidate: string): void {
+    if (this.state.getReferrer(candidate) === undefined) return;
+    this.write(`edge:${candidate}`, { op: 'del', candidate });
+    this.state.deleteEdge(candidate);
+  }
+
+  stats(): JournalStats {
+    let edges = 0;
+    for (const _ of this.state.edges()) edges++;
+    return { records: this.records, edges };
+  }
+
+  getAttributes(user: string): UserAttributes | undefined {
+    return this.state.getAttributes(user);
+  }
+
+  attributes(): Iterable<[string, UserAttributes]> {
+    return this.state.attributes();
+  }
+
+  putAttributes(user: string, attributes: UserAttributes): void {
+    this.write(`attrs:${user}`, { op: 'attrs', user, attributes });
+    this.state.putAttributes(user, attributes);
+  }
+
+  deleteAttributes(user: string): void {
+    if (this.state.getAttributes(user) === undefined) return;
+    this.write(`attrs:${user}`, { op: 'delattrs', user });
+    this.state.deleteAttributes(user);
+  }
+
+  beginBatch(): void {
+    this.batchDepth++;
+  }
+
+  /**
+   * the outermost end writes what changed, one record per touched key - keys
+   * that ended up where they started (e.g. rolled back) are left out
+   */
+  endBatch(): void {
+    if (this.batchDepth === 0) return;
+    if (--this.batchDepth > 0) return;
+
+    const records: JournalRecord[] = [];
+    for (const [key, before] of this.touched) {
+      if (this.snapshot(key) !== before) records.push(this.current(key));
+    }
+    this.touched.clear();
+
+    if (records.length === 1) {
+      this.append(records);
+    } else if (records.length > 1) {
+      this.append(records, true);
+    }
+  }
+
+  /**
+   * rewrite the journal as one put per live edge (oldest first), then one per
+   * user with attributes
+   * written to a temp file and renamed over, so a crash leaves either version intact
+   */
+  compact(): void {
+    if (this.batchDepth > 0) {
+      throw new Error(`can't compact journal ${this.path} in the middle of a batch`);
+    }
+    const tmp = `${this.path}.compact`;
+    const edges = Array.from(this.state.edges()).sort((a, b) => a.timestamp - b.timestamp);
+    const attributes = Array.from(this.state.attributes());
+
+    const fd = openSync(tmp, 'w');
+    try {
+      writeSync(fd, this.header());
+      for (const edge of edges) {
+        writeSync(fd, JSON.stringify({ op: 'put', edge }) + '\n');
+      }
+      for (const [user, attrs] of attributes) {
+        writeSync(fd, JSON.stringify({ op: 'attrs', user, attributes: attrs }) + '\n');
+      }
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+
+    this.close();
+    renameSync(tmp, this.path);
+    this.records = edges.length + attributes.length;
+    this.open();
+  }
+
+  /**
+   * release the file handle, further writes throw
+   */
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): void {
+    this.fd = openSync(this.path, 'a');
+    // new file, or one that died before its header made it to disk
+    if (fstatSync(this.fd).size === 0) {
+      writeSync(this.fd, this.header());
+    }
+  }
+
+  // straight to disk outside a batch, otherwise remember the key's starting point
+  private write(key: string, record: JournalRecord): void {
+    this.assertOpen();
+    if (this.batchDepth === 0) {
+      this.append([record]);
+    } else if (!this.touched.has(key)) {
+      this.touched.set(key, this.snapshot(key));
+    }
+  }
+
+  // one write call, so a batch's lines land together or get torn at the end
+  private append(records: JournalRecord[], batch = false): void {
+    this.assertOpen();
+    const lines = records.map(record => JSON.stringify(record));
+    if (batch) {
+      lines.unshift(JSON.stringify({ op: 'begin' }));
+      lines.push(JSON.stringify({ op: 'commit' }));
+    }
+    writeSync(this.fd!, lines.join('\n') + '\n');
+    if (this.fsync) fsyncSync(this.fd!);
+    this.records += records.length;
+  }
+
+  private assertOpen(): void {
+    if (this.fd === null) {
+      throw new Error(`journal ${this.path} is closed`);
+    }
+  }
+
+  private snapshot(key: string): string | undefined {
+    const value = key.startsWith('edge:')
+      ? this.state.getEdge(key.slice('edge:'.length))
+      : this.state.getAttributes(key.slice('attrs:'.length));
+    return value === undefined ? undefined : JSON.stringify(value);
+  }
+
+  private current(key: string): JournalRecord {
+    if (key.startsWith('edge:')) {
+      const candidate = key.slice('edge:'.length);
+      const edge = this.state.getEdge(candidate);
+      return edge ? { op: 'put', edge } : { op: 'del', candidate };
+    }
+    const user = key.slice('attrs:'.length);
+    const attributes = this.state.getAttributes(user);
+    return attributes ? { op: 'attrs', user, attributes } : { op: 'delattrs', user };
+  }
+
+  private header(): string {
+    return JSON.stringify({ journal: 'refnet', version: JOURNAL_VERSION }) + '\n';
+  }
+
+  private replay(): void {
+    const text = readFileSync(this.path, 'utf8');
+    const lines = text.split('\n');
+    const tail = lines.pop()!; // '' when the file ends cleanly
+
+    // no complete line at all - fine if it's a torn header, but don't touch anything else
+    if (lines.length === 0 && tail !== '' && !this.header().startsWith(tail)) {
+      throw new Error(`${this.path} is not a referral journal`);
+    }
+
+    // lines of a batch wait for its commit, and where the batch started
+    let batch: JournalRecord[] | null = null;
+    let batchStart = 0;
+    let offset = 0;
+
+    lines.forEach((line, i) => {
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`journal ${this.path} line ${i + 1} is corrupt`);
+      }
+
+      const start = offset;
+      offset += Buffer.byteLength(line) + 1;
+      if (i === 0) {
+        this.checkHeader(record);
+        return;
+      }
+
+      const op = (record as BatchMarker)?.op;
+      if (op === 'begin' || op === 'commit') {
+        if ((op === 'begin') !== (batch === null)) {
+          throw new Error(`journal ${this.path} line ${i + 1} is an unexpected ${op}`);
+        }
+        if (op === 'begin') {
+          batch = [];
+          batchStart = start;
+        } else {
+          batch!.forEach(r => this.apply(r));
+          batch = null;
+        }
+        return;
+      }
+
+      const checked = this.check(record, i + 1);
+      if (batch) {
+        batch.push(checked);
+      } else {
+        this.apply(checked);
+      }
+    });
+
+    // a record only counts once its newline is written - anything after the
+    // last newline is a torn append, and so is a batch that never got its
+    // commit. cut them off so new records start clean
+    if (batch !== null) {
+      truncateSync(this.path, batchStart);
+    } else if (tail !== '') {
+      truncateSync(this.path, Buffer.byteLength(text) - Buffer.byteLength(tail));
+    }
+  }
+
+  private checkHeader(record: unknown): void {
+    const header = record as { journal?: unknown; version?: unknown };
+    if (header?.journal !== 'refnet') {
+      throw new Error(`${this.path} is not a referral journal`);
+    }
+    if (header.version !== JOURNAL_VERSION) {
+      throw new Error(`unsupported journal version ${header.version}, expected ${JOURNAL_VERSION}`);
+    }
+  }
+
+  private check(record: unknown, lineNo: number): JournalRecord {
+    const r = record as JournalRecord;
+    if (
+      (r?.op === 'put' && typeof r.edge?.referrer === 'string' && typeof r.edge?.candidate === 'string') ||
+      (r?.op === 'del' && typeof r.candidate === 'string') ||
+      (r?.op === 'attrs' && typeof r.user === 'string' && r.attributes && typeof r.attributes === 'object') ||
+      (r?.op === 'delattrs' && typeof r.user === 'string')
+    ) {
+      return r;
+    }
+    throw new Error(`journal ${this.path} line ${lineNo} is not a put/del record`);
+  }
+
+  private apply(r: JournalRecord): void {
+    if (r.op === 'put') {
+      this.state.deleteEdge(r.edge.candidate); // re-link after a reassign
+      this.state.putEdge(r.edge);
+    } else if (r.op === 'del') {
+      this.state.deleteEdge(r.candidate);
+    } else if (r.op === 'attrs') {
+      this.state.putAttributes(r.user, r.attributes);
+    } else {
+      this.state.deleteAttributes(r.user);
+    }
+    this.records++;
+  }
+}
@@ -0,0 +1,85 @@
+import { ReferralEdge, UserAttributes } from '../models/types';
+import { ReferralStore } from './ReferralStore';
+
+/**
+ * the default store - plain maps, gone when the process exits
+ */
+export class InMemoryStore implements ReferralStore {
+  // main referral map - who refers who
+  private refMap: Map<string, Set<string>> = new Map();
+  // reverse lookup - who referred this person
+  private whoReferred: Map<string, string> = new Map();
+  // when/how each referral happened, keyed by candidate
+  private edgeMap: Map<string, ReferralEdge> = new Map();
+  // department, region etc, keyed by user
+  private attributeMap: Map<string, UserAttributes> = new Map();
+
+  getReferrer(candidate: string): string | undefined {
+    return this.whoReferred.get(candidate);
+  }
+
+  getEdge(candidate: string): ReferralEdge | undefined {
+    return this.edgeMap.get(candidate);
+  }
+
+  getChildren(user: string): Iterable<string> {
+    return this.refMap.get(user) ?? [];
+  }
+
+  hasUser(user: string): boolean {
+    return this.refMap.has(user) || this.whoReferred.has(user);
+  }
+
+  *users(): Iterable<string> {
+    yield* this.refMap.keys();
+    for (const person of this.whoReferred.keys()) {
+      if (!this.refMap.has(person)) yield person;
+    }
+  }
+
+  referrers(): Iterable<string> {
+    return this.refMap.keys();
+  }
+
+  edges(): Iterable<ReferralEdge> {
+    return this.edgeMap.values();
+  }
+
+  putEdge(edge: ReferralEdge): void {
+    if (!this.refMap.has(edge.referrer)) {
+      this.refMap.set(edge.referrer, new Set());
+    }
+    this.refMap.get(edge.referrer)!.add(edge.candidate);
+    this.whoReferred.set(edge.candidate, edge.referrer);
+    this.edgeMap.set(edge.candidate, edge);
+  }
+
+  deleteEdge(candidate: string): void {
+    const referrer = this.whoReferred.get(candidate);
+    if (referrer === undefined) return;
+
+    const refs = this.refMap.get(referrer)!;
+    refs.delete(candidate);
+    if (refs.size === 0) {
+      this.refMap.delete(referrer); // users only exist through their edges
+    }
+    this.whoReferred.delete(candidate);
+    this.edgeMap.delete(candidate);
+  }
+
+  getAttributes(user: string): UserAttributes | undefined {
+    return this.attributeMap.get(user);
+  }
+
+  attributes(): Iterable<[string, UserAttributes]> {
+    return this.attributeMap.entries();
+  }
+
+  putAttributes(user: string, attributes: UserAttributes): void {
+    this.attributeMap.set(user, attributes);
+  }
+
+  deleteAttributes(user: string): void {
+    this.attributeMap.delete(user);
+  }
+}
@@ -0,0 +1,43 @@
+import { ReferralEdge, UserAttributes } from '../models/types';
+
+/**
+ * where a ReferralNetwork keeps its edges
+ *
+ * stores are dumb on purpose: they never check the rules (self referrals,
+ * cycles, one referrer per candidate) - ReferralNetwork does that before it
+ * calls putEdge / deleteEdge. everything is synchronous so the network's
+ * O(1) lookups stay O(1)
+ *
+ * a user exists only while they're on at least one edge. attributes are kept
+ * by id on the side and don't make anyone a user
+ */
+export interface ReferralStore {
+  getReferrer(candidate: string): string | undefined;
+  getEdge(candidate: string): ReferralEdge | undefined;
+  // direct referrals, empty for anyone who referred nobody
+  getChildren(user: string): Iterable<string>;
+  hasUser(user: string): boolean;
+
+  // everyone, people who referred someone first
+  users(): Iterable<string>;
+  // users with at least one direct referral
+  referrers(): Iterable<string>;
+  edges(): Iterable<ReferralEdge>;
+
+  // candidate must not have a referrer yet, or have this same one (the edge's details get replaced)
+  putEdge(edge: ReferralEdge): void;
+  deleteEdge(candidate: string): void;
+
+  getAttributes(user: string): UserAttributes | undefined;
+  // every id with attributes, in or out of the graph
+  attributes(): Iterable<[string, UserAttributes]>;
+  // replaces whatever the user had
+  putAttributes(user: string, attributes: UserAttributes): void;
+  deleteAttributes(user: string): void;
+
+  // optional: the writes between these belong to one mutation (or transaction)
+  // and a store that persists them should keep them all-or-nothing. batches nest,
+  // only the outermost endBatch counts
+  beginBatch?(): void;
+  endBatch?(): void;
+}
@@ -0,0 +1,74 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * minimal typed event emitter
+ *
+ * listeners run synchronously, one throwing doesn't stop the rest - the error
+ * goes to onError instead. hold() / release() buffer events (nested holds go to
+ * the outer buffer), so a caller can drop events for work it ended up undoing
+ */
+export class Emitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<unknown>>>();
+  private frames: Array<Array<{ event: keyof Events; payload: unknown }>> = [];
+
+  constructor(private readonly onError: (err: unknown, event: keyof Events) => void) {}
+
+  /**
+   * returns a function that unsubscribes
+   */
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    const entry = listener as Listener<unknown>;
+    set.add(entry);
+
+    return () => {
+      set!.delete(entry);
+    };
+  }
+
+  hasListeners(event: keyof Events): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    if (this.frames.length > 0) {
+      this.frames[this.frames.length - 1].push({ event, payload });
+      return;
+    }
+    this.deliver(event, payload);
+  }
+
+  hold(): void {
+    this.frames.push([]);
+  }
+
+  /**
+   * stop buffering, passing on the held events that `keep` accepts
+   */
+  release(keep: (event: keyof Events) => boolean = () => true): void {
+    const frame = this.frames.pop();
+    if (!frame) return;
+
+    for (const { event, payload } of frame) {
+      if (keep(event)) this.emit(event, payload as Events[typeof event]);
+    }
+  }
+
+  private deliver<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    // copy so listeners can unsubscribe mid-emit
+    for (const listener of Array.from(set)) {
+      try {
+        listener(payload);
+      } catch (err) {
+        this.onError(err, event);
+      }
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * binary max-heap keyed by a numeric priority
+ * ties pop in insertion order so results stay deterministic
+ */
+export class MaxHeap<T> {
+  private items: Array<{ item: T; priority: number; seq: number }> = [];
+  private seq = 0;
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.items.push({ item, priority, seq: this.seq++ });
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): { item: T; priority: number } | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return { item: top.item, priority: top.priority };
+  }
+
+  peekPriority(): number | undefined {
+    return this.items[0]?.priority;
+  }
+
+  private before(i: number, j: number): boolean {
+    const a = this.items[i];
+    const b = this.items[j];
+    return a.priority > b.priority || (a.priority === b.priority && a.seq < b.seq);
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(i, parent)) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const n = this.items.length;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let best = i;
+      if (left < n && this.before(left, best)) best = left;
+      if (right < n && this.before(right, best)) best = right;
+      if (best === i) break;
+      [this.items[i], this.items[best]] = [this.items[best], this.items[i]];
+      i = best;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+export interface NelderMeadOptions {
+  step?: number; // initial simplex size along each axis (default 0.5)
+  maxIterations?: number; // default 500 per dimension
+  tolerance?: number; // stop once the simplex values agree this closely (default 1e-10)
+}
+
+export interface NelderMeadResult {
+  x: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * derivative-free minimiser, fine for the handful of parameters we fit
+ * f may return Infinity / NaN for points it doesn't like, they're treated as worst
+ */
+export function nelderMead(f: (x: number[]) => number, x0: number[], options: NelderMeadOptions = {}): NelderMeadResult {
+  const n = x0.length;
+  const step = options.step ?? 0.5;
+  const maxIterations = options.maxIterations ?? 500 * n;
+  const tolerance = options.tolerance ?? 1e-10;
+  const value = (x: number[]) => {
+    const v = f(x);
+    return Number.isNaN(v) ? Infinity : v;
+  };
+
+  let simplex = [x0.slice(), ...x0.map((_, i) => x0.map((xi, j) => (i === j ? xi + step : xi)))]
+    .map(x => ({ x, v: value(x) }));
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    simplex.sort((a, b) => a.v - b.v);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.v - best.v) <= tolerance * (Math.abs(best.v) + tolerance)) {
+      return { x: best.x, value: best.v, iterations: iter, converged: true };
+    }
+
+    // centroid of everything but the worst
+    const centroid = x0.map((_, j) => simplex.slice(0, n).reduce((sum, p) => sum + p.x[j], 0) / n);
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const vr = value(reflected);
+    if (vr < best.v) {
+      const expanded = along(-2);
+      const ve = value(expanded);
+      simplex[n] = ve < vr ? { x: expanded, v: ve } : { x: reflected, v: vr };
+      continue;
+    }
+    if (vr < simplex[n - 1].v) {
+      simplex[n] = { x: reflected, v: vr };
+      continue;
+    }
+
+    const contracted = vr < worst.v ? along(-0.5) : along(0.5);
+    const vc = value(contracted);
+    if (vc < Math.min(vr, worst.v)) {
+      simplex[n] = { x: contracted, v: vc };
+      continue;
+    }
+
+    // shrink everything towards the best point
+    simplex = simplex.map((p, i) => {
+      if (i === 0) return p;
+      const x = p.x.map((xi, j) => best.x[j] + 0.5 * (xi - best.x[j]));
+      return { x, v: value(x) };
+    });
+  }
+
+  simplex.sort((a, b) => a.v - b.v);
+  return { x: simplex[0].x, value: simplex[0].v, iterations: maxIterations, converged: false };
+}
+
+/**
+ * second derivatives by central differences, h is the step along every axis
+ */
+export function numericHessian(f: (x: number[]) => number, x: number[], h: number = 1e-3): number[][] {
+  const n = x.length;
+  const at = (di: number, i: number, dj: number, j: number) => {
+    const p = x.slice();
+    p[i] += di * h;
+    p[j] += dj * h;
+    return f(p);
+  };
+  const fx = f(x);
+  const hessian: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    hessian[i][i] = (at(1, i, 0, i) - 2 * fx + at(-1, i, 0, i)) / (h * h);
+    for (let j = 0; j < i; j++) {
+      const v = (at(1, i, 1, j) - at(1, i, -1, j) - at(-1, i, 1, j) + at(-1, i, -1, j)) / (4 * h * h);
+      hessian[i][j] = v;
+      hessian[j][i] = v;
+    }
+  }
+
+  return hessian;
+}
+
+/**
+ * gauss-jordan with partial pivoting, null if the matrix is (numerically) singular
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(...matrix.map(row => Math.max(...row.map(Math.abs))), 0);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (!(Math.abs(a[pivot][col]) > 1e-12 * scale)) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let k = 0; k < 2 * n; k++) a[col][k] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * n; k++) a[r][k] -= factor * a[col][k];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+}
+
+/**
+ * inverse standard normal cdf (acklam's approximation, ~1e-9 relative error)
+ * e.g. normalQuantile(0.975) = 1.96
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new RangeError(`p must be in (0, 1), got ${p}`);
+  }
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
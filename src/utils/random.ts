@@ -0,0 +1,58 @@
+export type Rng = () => number;
+
+/**
+ * seeded PRNG (mulberry32) - same seed always gives the same sequence
+ * returns floats in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * number of successes in n bernoulli(p) draws
+ * skips ahead with geometric gaps so cost is O(n * min(p, 1-p)) instead of O(n)
+ */
+export function sampleBinomial(rng: Rng, n: number, p: number): number {
+  if (n <= 0 || p <= 0) return 0;
+  if (p >= 1) return n;
+
+  // flip it around so we always walk the rarer outcome
+  if (p > 0.5) {
+    return n - sampleBinomial(rng, n, 1 - p);
+  }
+
+  const logQ = Math.log(1 - p);
+  let successes = 0;
+  let pos = 0;
+
+  while (true) {
+    // gap until the next success
+    const gap = Math.floor(Math.log(1 - rng()) / logQ);
+    pos += gap + 1;
+    if (pos > n) break;
+    successes++;
+  }
+
+  return successes;
+}
+
+/**
+ * linear-interpolated percentile, q in [0, 1]
+ * expects values to already be sorted ascending
+ */
+export function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+
+  const idx = (sorted.length - 1) * q;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
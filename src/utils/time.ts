@@ -0,0 +1,18 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toMillis(time: Date | number): number {
+  return time instanceof Date ? time.getTime() : time;
+}
+
+/**
+ * toMillis for input we don't trust (options objects, parsed JSON)
+ * anything but a finite number or a valid Date is a TypeError, so an ISO
+ * string never ends up stored and compared as a string
+ */
+export function checkedMillis(time: unknown, what: string): number {
+  const millis = time instanceof Date ? time.getTime() : time;
+  if (typeof millis !== 'number' || !Number.isFinite(millis)) {
+    throw new TypeError(`${what} must be a finite epoch ms number or a Date, got ${JSON.stringify(time) ?? String(time)}`);
+  }
+  return millis;
+}
@@ -0,0 +1,228 @@
+import { request } from 'http';
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { ApiServer } from '../src/server/ApiServer';
+
+describe('ApiServer', () => {
+  let server: ApiServer;
+
+  beforeEach(() => {
+    // alice -> bob -> charlie, alice -> david
+    const network = new ReferralNetwork();
+    network.addReferral('alice', 'bob', { timestamp: 1000 });
+    network.addReferral('bob', 'charlie', { timestamp: 2000 });
+    network.addReferral('alice', 'david', { timestamp: 3000 });
+    server = new ApiServer({ network });
+  });
+
+  const get = (url: string) => server.inject({ method: 'GET', url });
+  const post = (url: string, body: unknown) => server.inject({ method: 'POST', url, body });
+
+  describe('referrals', () => {
+    test('adding returns the stored edge', async () => {
+      const res = await post('/referrals', { referrer: 'david', candidate: 'erin', timestamp: '2024-01-01T00:00:00Z', metadata: { channel: 'email' } });
+
+      expect(res.status).toBe(201);
+      expect(res.body).toEqual({
+        referrer: 'david',
+        candidate: 'erin',
+        timestamp: Date.parse('2024-01-01T00:00:00Z'),
+        metadata: { channel: 'email' }
+      });
+      expect(server.network.getReferrer('erin')).toBe('david');
+    });
+
+    test('rejections map to status codes with the reason as the error code', async () => {
+      const self = await post('/referrals', { referrer: 'erin', candidate: 'erin' });
+      expect(self.status).toBe(422);
+      expect(self.body).toEqual({ error: { code: 'SELF_REFERRAL', message: expect.any(String) } });
+
+      const taken = await post('/referrals', { referrer: 'david', candidate: 'bob' });
+      expect(taken.status).toBe(409);
+      expect(taken.body).toMatchObject({ error: { code: 'ALREADY_REFERRED', existingReferrer: 'alice' } });
+
+      const cycle = await post('/referrals', { referrer: 'charlie', candidate: 'alice' });
+      expect(cycle.status).toBe(409);
+      expect(cycle.body).toMatchObject({ error: { code: 'CYCLE', path: ['alice', 'bob', 'charlie'] } });
+    });
+
+    test('malformed bodies are 400s', async () => {
+      expect((await post('/referrals', { referrer: 'a' })).status).toBe(400);
+      expect((await post('/referrals', { referrer: 'a', candidate: 'b', timestamp: 'soon' })).status).toBe(400);
+      expect((await post('/referrals', [1, 2])).status).toBe(400);
+      expect((await server.inject({ method: 'POST', url: '/referrals' })).body)
+        .toMatchObject({ error: { code: 'BAD_REQUEST' } });
+    });
+
+    test('batch reports per-item results, atomic rolls back', async () => {
+      const mixed = await post('/referrals/batch', {
+        referrals: [{ referrer: 'david', candidate: 'erin' }, { referrer: 'x', candidate: 'bob' }]
+      });
+      expect(mixed.status).toBe(200);
+      expect(mixed.body).toMatchObject({ committed: true, added: 1 });
+
+      const atomic = await post('/referrals/batch', {
+        atomic: true,
+        referrals: [{ referrer: 'erin', candidate: 'frank' }, { referrer: 'frank', frank: 1 }]
+      });
+      expect(atomic.status).toBe(400);
+
+      const rolledBack = await post('/referrals/batch', {
+        atomic: true,
+        referrals: [{ referrer: 'erin', candidate: 'frank' }, { referrer: 'gina', candidate: 'gina' }]
+      });
+      expect(rolledBack.status).toBe(409);
+      expect(server.network.hasUser('frank')).toBe(false);
+    });
+
+    test('get and delete by candidate', async () => {
+      expect((await get('/referrals/bob')).body).toMatchObject({ referrer: 'alice', candidate: 'bob', timestamp: 1000 });
+      expect((await get('/referrals/alice')).status).toBe(404);
+
+      const removed = await server.inject({ method: 'DELETE', url: '/referrals/charlie' });
+      expect(removed.body).toEqual({ removed: { referrer: 'bob', candidate: 'charlie' } });
+      expect(server.network.hasUser('charlie')).toBe(false);
+
+      const again = await server.inject({ method: 'DELETE', url: '/referrals/charlie' });
+      expect(again.status).toBe(404);
+      expect(again.body).toMatchObject({ error: { code: 'NOT_REFERRED' } });
+    });
+
+    test('pipeline status and conversion rates', async () => {
+      const put = (url: string, body: unknown) => server.inject({ method: 'PUT', url, body });
+
+      const hired = await put('/referrals/bob/status', { status: 'hired', at: 5000 });
+      expect(hired.body).toEqual({
+        candidate: 'bob',
+        status: 'hired',
+        history: [{ status: 'referred', at: 1000 }, { status: 'hired', at: 5000 }]
+      });
+
+      const backwards = await put('/referrals/bob/status', { status: 'offered' });
+      expect(backwards.status).toBe(409);
+      expect(backwards.body).toMatchObject({ error: { code: 'INVALID_TRANSITION', from: 'hired', to: 'offered' } });
+      expect((await put('/referrals/bob/status', { status: 'promoted' })).status).toBe(400);
+
+      expect((await get('/conversion')).body).toContainEqual(
+        { user: 'alice', referrals: 2, hired: 1, rejected: 0, inProgress: 1, conversionRate: 0.5 }
+      );
+    });
+  });
+
+  describe('queries', () => {
+    test('user and reach', async () => {
+      expect((await get('/users/bob')).body).toEqual({
+        user: 'bob',
+        referrer: 'alice',
+        depth: 1,
+        directRefs: ['charlie'],
+        totalReach: 1
+      });
+      expect((await get('/users/alice/reach')).body).toMatchObject({ totalReach: 3 });
+
+      const unknown = await get('/users/nobody');
+      expect(unknown.status).toBe(404);
+      expect(unknown.body).toMatchObject({ error: { code: 'UNKNOWN_USER', user: 'nobody' } });
+    });
+
+    test('ids are url-decoded', async () => {
+      await post('/referrals', { referrer: 'alice', candidate: 'mary ann' });
+      expect((await get('/users/mary%20ann')).body).toMatchObject({ referrer: 'alice' });
+    });
+
+    test('rankings', async () => {
+      expect((await get('/top?k=1')).body).toEqual([{ user: 'alice', totalReferrals: 3 }]);
+      expect((await get('/influencers?k=1')).body).toEqual([{ user: 'alice', newReachAdded: 3 }]);
+      expect((await get('/centrality?k=1&normalized=true')).body).toEqual([{ user: 'bob', centralityScore: 1 / 6 }]);
+      expect((await get('/top?k=-1')).status).toBe(400);
+    });
+  });
+
+  describe('simulation', () => {
+    test('expected and stochastic runs', async () => {
+      const expected = await post('/simulate', { prob: 0.1, days: 3 });
+      expect((expected.body as { daily: number[] }).daily).toHaveLength(3);
+
+      const stochastic = await post('/simulate', { prob: 0.1, days: 3, trials: 20, seed: 1 });
+      const { daily } = stochastic.body as { daily: Array<{ p50: number }> };
+      expect(daily[2]).toHaveProperty('p50');
+
+      expect((await post('/simulate', { prob: 2, days: 3 })).status).toBe(400);
+    });
+
+    test('days to target and min bonus', async () => {
+      const days = await post('/simulate/days-to-target', { prob: 0.1, target: 200 });
+      expect((days.body as { days: number }).days).toBeGreaterThan(0);
+      expect((await post('/simulate/days-to-target', { prob: 0, target: 200 })).body).toEqual({ days: null });
+
+      const fromString = await post('/simulate/min-bonus', { days: 30, target: 500, adoption: 'linear:slope=0.0001,max=0.1' });
+      const fromObject = await post('/simulate/min-bonus', {
+        days: 30, target: 500, adoption: { type: 'linear', slope: 0.0001, max: 0.1 }
+      });
+      expect(fromString.status).toBe(200);
+      expect(fromObject.body).toEqual(fromString.body);
+
+      expect((await post('/simulate/min-bonus', { days: 30, target: 500, adoption: 'wobbly' })).status).toBe(400);
+    });
+
+    test('can start from the live network', async () => {
+      const res = await post('/simulate', { prob: 0.5, days: 1, seedFromNetwork: true });
+      // four users, everyone has capacity left
+      expect((res.body as { daily: number[] }).daily[0]).toBeCloseTo(2);
+    });
+  });
+
+  test('unknown routes and wrong methods', async () => {
+    expect((await get('/nope')).status).toBe(404);
+
+    const wrongMethod = await server.inject({ method: 'PUT', url: '/top' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.body).toMatchObject({ error: { code: 'METHOD_NOT_ALLOWED', allowed: ['GET'] } });
+  });
+
+  describe('over a real socket', () => {
+    let port: number;
+
+    beforeEach(async () => {
+      server = new ApiServer({ maxBodyBytes: 200 });
+      port = await server.listen(0);
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    function send(method: string, path: string, body?: string): Promise<{ status: number; body: any; type: string }> {
+      return new Promise((resolve, reject) => {
+        const req = request({ host: '127.0.0.1', port, method, path }, res => {
+          let data = '';
+          res.on('data', chunk => { data += chunk; });
+          res.on('end', () => resolve({
+            status: res.statusCode!,
+            body: JSON.parse(data),
+            type: res.headers['content-type'] ?? ''
+          }));
+        });
+        req.on('error', reject);
+        req.end(body);
+      });
+    }
+
+    test('round trip as JSON', async () => {
+      const added = await send('POST', '/referrals', JSON.stringify({ referrer: 'a', candidate: 'b' }));
+      expect(added.status).toBe(201);
+      expect(added.type).toContain('application/json');
+
+      expect((await send('GET', '/users/a')).body).toMatchObject({ directRefs: ['b'] });
+    });
+
+    test('bad JSON and oversized bodies', async () => {
+      const bad = await send('POST', '/referrals', '{ nope');
+      expect(bad.status).toBe(400);
+      expect(bad.body.error.message).toContain('not valid JSON');
+
+      const big = await send('POST', '/referrals', JSON.stringify({ referrer: 'a'.repeat(500), candidate: 'b' }));
+      expect(big.status).toBe(413);
+      expect(big.body.error.code).toBe('PAYLOAD_TOO_LARGE');
+    });
+  });
+});
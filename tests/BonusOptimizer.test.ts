@@ -0,0 +1,137 @@
+import { BonusOptimizer } from '../src/simulation/BonusOptimizer';
+import { NetworkSimulation } from '../src/simulation/NetworkSimulation';
+import { createBonusSchedule, describeSchedule, scheduleGrid } from '../src/simulation/bonusSchedule';
+
+describe('BonusOptimizer', () => {
+  const adoption = (bonus: number) => Math.min(0.2, bonus / 10000);
+  let sim: NetworkSimulation;
+
+  beforeEach(() => {
+    sim = new NetworkSimulation({ startingReferrers: 100, maxRefsPerUser: 5 });
+  });
+
+  describe('schedules', () => {
+    test('flat, timed and tiered bonuses', () => {
+      const timed = createBonusSchedule({ type: 'timed', periods: [{ untilDay: 7, amount: 1000 }, { untilDay: 14, amount: 500 }], after: 100 });
+      expect([1, 7, 8, 14, 15].map(day => timed.bonusAt(day, 1))).toEqual([1000, 1000, 500, 500, 100]);
+
+      const tiered = createBonusSchedule({ type: 'tiered', amounts: [200, 400] });
+      expect([1, 2, 3].map(nth => tiered.bonusAt(1, nth))).toEqual([200, 400, 400]);
+
+      expect(describeSchedule({ type: 'timed', periods: [{ untilDay: 7, amount: 1000 }], after: 250 }))
+        .toBe('$1000 to day 7, then $250');
+    });
+
+    test('rejects bad schedules', () => {
+      expect(() => createBonusSchedule({ type: 'flat', amount: -5 })).toThrow(RangeError);
+      expect(() => createBonusSchedule({ type: 'tiered', amounts: [] })).toThrow(RangeError);
+      expect(() => createBonusSchedule({
+        type: 'timed', periods: [{ untilDay: 7, amount: 1 }, { untilDay: 3, amount: 1 }], after: 0
+      })).toThrow('increasing');
+      expect(() => createBonusSchedule({ type: 'bogus' } as never)).toThrow(TypeError);
+    });
+
+    test('grid covers flat, launch-boost and escalating plans', () => {
+      const specs = scheduleGrid({ amounts: [0, 500, 1000], launchDays: [7], tierSteps: [250] });
+
+      expect(specs.filter(s => s.type === 'flat')).toHaveLength(3);
+      expect(specs.filter(s => s.type === 'timed')).toHaveLength(3); // (500, 0), (1000, 0), (1000, 500)
+      expect(specs).toContainEqual({ type: 'tiered', amounts: [500, 750, 1000] });
+    });
+  });
+
+  test('a flat plan costs its bonus times the hires', () => {
+    const optimizer = new BonusOptimizer(sim, { days: 20, adoption });
+    const plan = optimizer.evaluate({ type: 'flat', amount: 500 });
+
+    expect(plan.referrals).toBeCloseTo(sim.simulate(() => 0.05, 20)[19]);
+    expect(plan.hires).toBe(plan.referrals);
+    expect(plan.cost).toBeCloseTo(500 * plan.hires);
+    expect(plan.costPerHire).toBeCloseTo(500);
+  });
+
+  test('a flat plan gets the same hires as simulate and minBonusForTarget see', () => {
+    const converting = new NetworkSimulation({ startingReferrers: 100, maxRefsPerUser: 5, conversionRate: 0.3 });
+    const optimizer = new BonusOptimizer(converting, { days: 30, adoption, targetHires: 150 });
+    const plan = optimizer.evaluate({ type: 'flat', amount: 500 });
+
+    expect(plan.hires).toBeCloseTo(converting.simulateHires(0.05, 30)[29]);
+    // watching the steps doesn't change them
+    expect(converting.simulate(0.05, 30, () => undefined)).toEqual(converting.simulate(0.05, 30));
+
+    const flats = Array.from({ length: 201 }, (_, i) => ({ type: 'flat' as const, amount: i * 10 }));
+    const { best } = optimizer.optimize(flats);
+    expect(best!.schedule).toEqual({ type: 'flat', amount: converting.minBonusForTarget(30, 150, adoption) });
+  });
+
+  test('hires and cost follow the conversion rate', () => {
+    const half = new NetworkSimulation({ startingReferrers: 100, maxRefsPerUser: 5, conversionRate: 0.5 });
+    const full = new BonusOptimizer(sim, { days: 20, adoption }).evaluate({ type: 'flat', amount: 500 });
+    const plan = new BonusOptimizer(half, { days: 20, adoption }).evaluate({ type: 'flat', amount: 500 });
+
+    expect(plan.hires).toBeCloseTo(full.hires / 2);
+    expect(plan.cost).toBeCloseTo(full.cost / 2);
+  });
+
+  test('a launch boost only pays extra for referrals made during it', () => {
+    const optimizer = new BonusOptimizer(sim, { days: 20, adoption });
+    const boosted = optimizer.evaluate({ type: 'timed', periods: [{ untilDay: 5, amount: 1000 }], after: 200 });
+    const flatLow = optimizer.evaluate({ type: 'flat', amount: 200 });
+    const flatHigh = optimizer.evaluate({ type: 'flat', amount: 1000 });
+
+    expect(boosted.hires).toBeGreaterThan(flatLow.hires);
+    expect(boosted.hires).toBeLessThan(flatHigh.hires);
+    expect(boosted.costPerHire).toBeGreaterThan(200);
+    expect(boosted.costPerHire).toBeLessThan(1000);
+  });
+
+  test('frontier is sorted by cost with strictly more hires, all within budget', () => {
+    const optimizer = new BonusOptimizer(sim, { days: 30, adoption, budget: 300000 });
+    const result = optimizer.optimize(scheduleGrid({
+      amounts: [0, 250, 500, 1000, 1500, 2000],
+      launchDays: [7],
+      tierSteps: [250]
+    }));
+
+    expect(result.evaluated).toBe(6 + 15 + 6);
+    expect(result.frontier.length).toBeGreaterThan(1);
+    for (let i = 1; i < result.frontier.length; i++) {
+      expect(result.frontier[i].cost).toBeGreaterThanOrEqual(result.frontier[i - 1].cost);
+      expect(result.frontier[i].hires).toBeGreaterThan(result.frontier[i - 1].hires);
+    }
+    expect(result.frontier.every(plan => plan.cost <= 300000)).toBe(true);
+    // no target - best is the most hires the budget buys
+    expect(result.best).toBe(result.frontier[result.frontier.length - 1]);
+  });
+
+  test('best is the cheapest plan that reaches the target', () => {
+    const candidates = scheduleGrid({ amounts: [0, 250, 500, 750, 1000, 1500, 2000], launchDays: [5, 10] });
+    const all = new BonusOptimizer(sim, { days: 30, adoption }).optimize(candidates);
+    const target = all.frontier[Math.floor(all.frontier.length / 2)].hires;
+
+    const { best } = new BonusOptimizer(sim, { days: 30, adoption, targetHires: target }).optimize(candidates);
+    expect(best!.hires).toBeGreaterThanOrEqual(target - 1e-9);
+    for (const plan of all.frontier) {
+      if (plan.hires >= target) expect(plan.cost).toBeGreaterThanOrEqual(best!.cost);
+    }
+
+    const broke = new BonusOptimizer(sim, { days: 30, adoption, targetHires: target, budget: best!.cost - 1 });
+    expect(broke.optimize(candidates).best?.hires ?? 0).toBeLessThan(target);
+  });
+
+  test('handles adoption curves that dip', () => {
+    // people get suspicious of huge bonuses
+    const dipping = (bonus: number) => (bonus <= 1000 ? bonus / 10000 : Math.max(0, 0.1 - (bonus - 1000) / 10000));
+    const result = new BonusOptimizer(sim, { days: 30, adoption: dipping })
+      .optimize(scheduleGrid({ amounts: [0, 500, 1000, 1500, 2000] }));
+
+    expect(result.best!.schedule).toEqual({ type: 'flat', amount: 1000 });
+    expect(result.frontier.map(plan => plan.schedule)).not.toContainEqual({ type: 'flat', amount: 2000 });
+  });
+
+  test('rejects bad options', () => {
+    expect(() => new BonusOptimizer(sim, { days: 0, adoption })).toThrow(RangeError);
+    expect(() => new BonusOptimizer(sim, { days: 10, adoption, budget: -1 })).toThrow(RangeError);
+    expect(() => new BonusOptimizer(sim, { days: 10, adoption: 0.1 as never })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,108 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { FraudAnalyzer } from '../src/analytics/FraudAnalyzer';
+
+describe('FraudAnalyzer', () => {
+  const MINUTE = 60 * 1000;
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    network = new ReferralNetwork();
+  });
+
+  // a normal-looking background of small trees, spread out over days
+  function addBackground(trees: number) {
+    for (let t = 0; t < trees; t++) {
+      network.addReferral(`root${t}`, `kid${t}a`, { timestamp: t * 1440 * MINUTE });
+      network.addReferral(`root${t}`, `kid${t}b`, { timestamp: (t * 1440 + 600) * MINUTE });
+    }
+  }
+
+  const flagsOf = (type: string, options = {}) =>
+    new FraudAnalyzer(network, options).analyze().filter(f => f.type === type);
+
+  test('flags a fan-out burst with the candidates involved', () => {
+    for (let i = 0; i < 12; i++) {
+      network.addReferral('bot', `cand-${String.fromCharCode(97 + i)}`, { timestamp: i * 30 * 1000 });
+    }
+    network.addReferral('bot', 'later', { timestamp: 5 * 24 * 60 * MINUTE });
+
+    const [flag] = flagsOf('FAN_OUT_BURST');
+    expect(flag.user).toBe('bot');
+    expect(flag.evidence).toHaveLength(12);
+    expect(flag.evidence).not.toContain('later');
+    expect(flag.score).toBeCloseTo(0.6);
+    expect(flag.explanation).toMatch(/12 referrals within 10 minutes/);
+  });
+
+  test('spread out referrals are not a burst', () => {
+    for (let i = 0; i < 12; i++) {
+      network.addReferral('busy', `cand-${String.fromCharCode(97 + i)}`, { timestamp: i * 20 * MINUTE });
+    }
+    expect(flagsOf('FAN_OUT_BURST')).toEqual([]);
+  });
+
+  test('flags long thin chains once, at the top', () => {
+    network.addReferral('start', 'c1');
+    for (let i = 1; i < 10; i++) {
+      network.addReferral(`c${i}`, `c${i + 1}`);
+    }
+    network.addReferral('fine', 'a');
+    network.addReferral('a', 'b');
+
+    const flags = flagsOf('LONG_CHAIN');
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ user: 'start', evidence: ['c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'c8', 'c9', 'c10'] });
+  });
+
+  test('flags the topmost subtree with zero hires', () => {
+    for (let i = 0; i < 4; i++) {
+      network.addReferral('ghost', `g${i}`);
+      for (let j = 0; j < 3; j++) network.addReferral(`g${i}`, `g${i}-${j}`);
+    }
+    for (let i = 0; i < 12; i++) network.addReferral('legit', `l${i}`);
+
+    const flags = flagsOf('NO_HIRES', { hiredUsers: ['l3'] });
+    expect(flags.map(f => f.user)).toEqual(['ghost']);
+    expect(flags[0].evidence).toHaveLength(16);
+
+    // without hire data the detector just doesn't run
+    expect(flagsOf('NO_HIRES')).toEqual([]);
+  });
+
+  test('flags reach outliers against the rest of the network', () => {
+    addBackground(20);
+    for (let i = 0; i < 40; i++) network.addReferral('whale', `w${i}`);
+
+    const flags = flagsOf('REACH_OUTLIER');
+    expect(flags.map(f => f.user)).toEqual(['whale']);
+    expect(flags[0].score).toBeGreaterThan(0.5);
+  });
+
+  test('flags near-identical candidate ids', () => {
+    for (let i = 1; i <= 6; i++) network.addReferral('farm', `User00${i}`);
+    network.addReferral('farm', 'alice');
+    for (let i = 1; i <= 3; i++) network.addReferral('honest', `bob${i}`);
+
+    const flags = flagsOf('SIMILAR_IDS', { similarIdGroup: 5 });
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ user: 'farm', explanation: '6 candidate ids matching "user#"' });
+  });
+
+  test('results are sorted by score and detectors can be turned off', () => {
+    for (let i = 0; i < 20; i++) network.addReferral('bot', `x${i}`, { timestamp: i });
+    network.addReferral('start', 'c1', { timestamp: 10 * 24 * 60 * MINUTE });
+    for (let i = 1; i < 8; i++) network.addReferral(`c${i}`, `c${i + 1}`, { timestamp: i * 24 * 60 * MINUTE });
+
+    const all = new FraudAnalyzer(network).analyze();
+    const scores = all.map(f => f.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(all.map(f => f.type)).toEqual(expect.arrayContaining(['FAN_OUT_BURST', 'LONG_CHAIN', 'SIMILAR_IDS']));
+
+    const onlyChains = new FraudAnalyzer(network, { detectors: ['LONG_CHAIN'] }).analyze();
+    expect(onlyChains.every(f => f.type === 'LONG_CHAIN')).toBe(true);
+  });
+
+  test('rejects bad thresholds', () => {
+    expect(() => new FraudAnalyzer(network, { burstSize: 0 })).toThrow(RangeError);
+  });
+});
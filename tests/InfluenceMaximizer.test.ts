@@ -0,0 +1,83 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { InfluenceMaximizer } from '../src/analytics/InfluenceMaximizer';
+import { randomForest } from './fixtures';
+
+describe('InfluenceMaximizer', () => {
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    // alice -> bob -> (charlie, david), alice -> eve; zed -> (yan, xi)
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob');
+    network.addReferral('bob', 'charlie');
+    network.addReferral('bob', 'david');
+    network.addReferral('alice', 'eve');
+    network.addReferral('zed', 'yan');
+    network.addReferral('zed', 'xi');
+  });
+
+  test('certain edges and unit weights reduce to the unique reach greedy', () => {
+    for (const seed of [2, 5, 11]) {
+      const forest = randomForest(300, seed, 0.1);
+      const result = new InfluenceMaximizer(forest).select(8);
+
+      expect(result.seeds.map(s => s.marginalGain))
+        .toEqual(forest.getUniqueReachInfluencers(8).map(s => s.newReachAdded));
+    }
+  });
+
+  test('weights change who gets picked', () => {
+    const maximizer = new InfluenceMaximizer(network);
+    const weight = (user: string) => (user === 'yan' || user === 'xi' ? 10 : 1);
+
+    const result = maximizer.select(1, { weight });
+    expect(result.seeds).toEqual([{ user: 'zed', marginalGain: 20 }]);
+  });
+
+  test('probabilistic edges shrink expected spread', () => {
+    const maximizer = new InfluenceMaximizer(network);
+    const certain = maximizer.select(2).expectedSpread;
+    const shaky = maximizer.select(2, { edgeProb: 0.5, simulations: 2000, seed: 4 });
+
+    // alice alone expects 0.5 (bob) + 0.25 * 2 (charlie, david) + 0.5 (eve) = 1.5
+    expect(certain).toBe(6);
+    expect(shaky.seeds[0].user).toBe('alice');
+    expect(shaky.seeds[0].marginalGain).toBeCloseTo(1.5, 1);
+  });
+
+  test('per-edge probabilities', () => {
+    const maximizer = new InfluenceMaximizer(network);
+    const edgeProb = (referrer: string) => (referrer === 'zed' ? 1 : 0);
+
+    const result = maximizer.select(3, { edgeProb });
+    expect(result.seeds).toEqual([{ user: 'zed', marginalGain: 2 }]);
+  });
+
+  test('same seed, same answer; spread estimate agrees with selection', () => {
+    const forest = randomForest(400, 7, 0.1);
+    const maximizer = new InfluenceMaximizer(forest);
+    const options = { edgeProb: 0.7, simulations: 100, seed: 9 };
+
+    const a = maximizer.select(5, options);
+    const b = maximizer.select(5, options);
+    expect(a).toEqual(b);
+
+    const spread = maximizer.estimateSpread(a.seeds.map(s => s.user), options);
+    expect(spread).toBeCloseTo(a.expectedSpread);
+  });
+
+  test('lazy greedy skips most re-evaluations', () => {
+    const forest = randomForest(2000, 3, 0.1);
+    const result = new InfluenceMaximizer(forest).select(20, { edgeProb: 0.8, simulations: 20 });
+    const users = forest.getAllUsers().length;
+
+    expect(result.seeds).toHaveLength(20);
+    expect(result.evaluations).toBeLessThan(users + 20 * 50);
+  });
+
+  test('rejects bad inputs', () => {
+    const maximizer = new InfluenceMaximizer(network);
+    expect(() => maximizer.select(2, { edgeProb: 1.5 })).toThrow(RangeError);
+    expect(() => maximizer.select(2, { edgeProb: 0.5, simulations: 0 })).toThrow(RangeError);
+  });
+});
@@ -1,4 +1,6 @@
 import { NetworkSimulation } from '../src/simulation/NetworkSimulation';
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { CapacityGrowthModel, ChurnGrowthModel, LogisticGrowthModel } from '../src/simulation/GrowthModel';
 
 describe('NetworkSimulation', () => {
   let sim: NetworkSimulation;
@@ -39,6 +41,20 @@ describe('NetworkSimulation', () => {
       const days = sim.daysToTarget(0, 100);
       expect(days).toBe(-1);
     });
+
+    test('probs can vary by day and by referrals made, with a per-bucket breakdown', () => {
+      // only first referrals, and only in week one
+      const schedule = (day: number, made: number) => (day <= 7 && made === 0 ? 0.1 : 0);
+      const byBucket = new Map<number, number>();
+      const daily = sim.simulate(schedule, 10, (_, made, referrals) => {
+        byBucket.set(made, (byBucket.get(made) ?? 0) + referrals);
+      });
+
+      expect(daily[0]).toBeCloseTo(10);
+      expect(daily[9]).toBe(daily[6]); // nothing after week one
+      expect(Array.from(byBucket.keys()).filter(made => byBucket.get(made)! > 0)).toEqual([0]);
+      expect(byBucket.get(0)).toBeCloseTo(daily[9]);
+    });
   });
 
   describe('bonus optimization', () => {
@@ -67,6 +83,14 @@ describe('NetworkSimulation', () => {
       expect(bonus).toBeNull();
     });
 
+    test('search cap can be raised', () => {
+      const pricey = (bonus: number) => (bonus >= 15000 ? 0.9 : 0.001);
+
+      expect(sim.minBonusForTarget(30, 500, pricey)).toBeNull();
+      expect(sim.minBonusForTarget(30, 500, pricey, 1e-3, undefined, 20000)).toBe(15000);
+      expect(() => sim.minBonusForTarget(30, 500, pricey, 1e-3, undefined, 0)).toThrow(RangeError);
+    });
+
     test('handle case where zero bonus works', () => {
       const goodAdoption = () => 0.5; // high base rate
       const bonus = sim.minBonusForTarget(50, 100, goodAdoption);
@@ -84,6 +108,236 @@ describe('NetworkSimulation', () => {
     });
   });
 
+  describe('stochastic mode', () => {
+    test('same seed gives same bands', () => {
+      const a = sim.simulateStochastic(0.1, 10, { trials: 50, seed: 7 });
+      const b = sim.simulateStochastic(0.1, 10, { trials: 50, seed: 7 });
+
+      expect(a.daily).toEqual(b.daily);
+      expect(a.trials).toHaveLength(50);
+    });
+
+    test('bands are ordered and track the expected curve', () => {
+      const result = sim.simulateStochastic(0.1, 10, { trials: 200 });
+      const expected = sim.simulate(0.1, 10);
+
+      for (const band of result.daily) {
+        expect(band.p5).toBeLessThanOrEqual(band.p50);
+        expect(band.p50).toBeLessThanOrEqual(band.p95);
+        expect(band.variance).toBeGreaterThanOrEqual(0);
+      }
+      // day 1 is just 100 coin flips so the mean should be close to 10
+      expect(Math.abs(result.daily[0].mean - expected[0])).toBeLessThan(2);
+    });
+
+    test('the expected curve is the mean of many trials, not just on day one', () => {
+      for (const [prob, days] of [[0.05, 42], [0.3, 21]]) {
+        const expected = sim.simulate(prob, days);
+        const { daily } = sim.simulateStochastic(prob, days, { trials: 200, seed: 3 });
+
+        for (let day = 7; day <= days; day += 7) {
+          const band = daily[day - 1];
+          // within 4 standard errors of the monte carlo mean
+          expect(Math.abs(band.mean - expected[day - 1])).toBeLessThan(4 * Math.sqrt(band.variance / 200) + 1e-9);
+        }
+      }
+    });
+
+    test('referrals are whole numbers and never shrink', () => {
+      const { trials } = sim.simulateStochastic(0.3, 8, { trials: 20 });
+
+      for (const run of trials) {
+        expect(run.every(Number.isInteger)).toBe(true);
+        for (let i = 1; i < run.length; i++) {
+          expect(run[i]).toBeGreaterThanOrEqual(run[i - 1]);
+        }
+      }
+    });
+
+    test('zero prob never grows', () => {
+      const result = sim.simulateStochastic(0, 5, { trials: 10 });
+      expect(result.daily.every(band => band.p95 === 0)).toBe(true);
+    });
+
+    test('higher confidence needs more days', () => {
+      const median = sim.daysToTarget(0.1, 200, { confidence: 0.5, trials: 200 });
+      const safe = sim.daysToTarget(0.1, 200, { confidence: 0.95, trials: 200 });
+
+      expect(median).toBeGreaterThan(0);
+      expect(safe).toBeGreaterThanOrEqual(median);
+      expect(sim.hitProbability(0.1, safe, 200, { trials: 200 })).toBeGreaterThanOrEqual(0.95);
+    });
+
+    test('min bonus with confidence is at least the average-case bonus', () => {
+      const adoption = (bonus: number) => Math.min(0.9, bonus / 1000);
+      const avgBonus = sim.minBonusForTarget(10, 300, adoption);
+      const safeBonus = sim.minBonusForTarget(10, 300, adoption, 1e-3, { confidence: 0.9, trials: 100 });
+
+      expect(avgBonus).not.toBeNull();
+      expect(safeBonus).not.toBeNull();
+      expect(safeBonus! % 10).toBe(0);
+      expect(safeBonus!).toBeGreaterThanOrEqual(avgBonus! - 10);
+    });
+
+    test('rejects bad confidence and trial counts', () => {
+      expect(() => sim.daysToTarget(0.1, 100, { confidence: 0 })).toThrow(RangeError);
+      expect(() => sim.simulateStochastic(0.1, 5, { trials: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('config and growth models', () => {
+    test('defaults match the original hardcoded values', () => {
+      const config = sim.getConfig();
+      expect(config.startingReferrers).toBe(100);
+      expect(config.maxRefsPerUser).toBe(10);
+      expect(config.model).toBeInstanceOf(CapacityGrowthModel);
+    });
+
+    test('starting referrers scale day one', () => {
+      const bigSim = new NetworkSimulation({ startingReferrers: 500 });
+      expect(bigSim.simulate(0.1, 1)[0]).toBeCloseTo(50);
+    });
+
+    test('rejects invalid config', () => {
+      expect(() => new NetworkSimulation({ startingReferrers: -1 })).toThrow(RangeError);
+      expect(() => new NetworkSimulation({ maxRefsPerUser: 0 })).toThrow(RangeError);
+      expect(() => new NetworkSimulation({ maxRefsPerUser: 2.5 })).toThrow(RangeError);
+      expect(() => new LogisticGrowthModel(0)).toThrow(RangeError);
+      expect(() => new ChurnGrowthModel(1.5)).toThrow(RangeError);
+    });
+
+    test('logistic model saturates at market size', () => {
+      const logistic = new NetworkSimulation({ model: new LogisticGrowthModel(1000) });
+      const results = logistic.simulate(0.3, 200);
+
+      expect(results[results.length - 1]).toBeLessThanOrEqual(1000);
+      expect(results[results.length - 1]).toBeGreaterThan(900);
+      expect(logistic.daysToTarget(0.3, 5000)).toBe(-1);
+    });
+
+    test('churn slows growth compared to no churn', () => {
+      const noChurn = new NetworkSimulation({ model: new ChurnGrowthModel(0) });
+      const churn = new NetworkSimulation({ model: new ChurnGrowthModel(0.05) });
+
+      expect(churn.simulate(0.1, 20)[19]).toBeLessThan(noChurn.simulate(0.1, 20)[19]);
+      expect(churn.daysToTarget(0.1, 100)).toBeGreaterThan(noChurn.daysToTarget(0.1, 100));
+    });
+
+    test('all entry points work against any model', () => {
+      const adoption = (bonus: number) => Math.min(0.5, bonus / 1000);
+      const models = [new CapacityGrowthModel(), new LogisticGrowthModel(5000), new ChurnGrowthModel(0.05)];
+
+      for (const model of models) {
+        const modelSim = new NetworkSimulation({ model });
+        const days = modelSim.daysToTarget(0.1, 200);
+        const bonus = modelSim.minBonusForTarget(20, 200, adoption);
+
+        expect(days).toBeGreaterThan(0);
+        expect(modelSim.simulate(0.1, days)[days - 1]).toBeGreaterThanOrEqual(200);
+        expect(bonus).not.toBeNull();
+        expect(modelSim.simulateStochastic(0.1, 5, { trials: 10 }).daily).toHaveLength(5);
+      }
+    });
+
+    test('stochastic churn loses referrers', () => {
+      const churn = new NetworkSimulation({ model: new ChurnGrowthModel(1) });
+      const result = churn.simulateStochastic(0.5, 5, { trials: 5 });
+      expect(result.daily.every(band => band.p95 === 0)).toBe(true);
+    });
+  });
+
+  describe('referral-to-hire conversion', () => {
+    const adoption = (bonus: number) => Math.min(0.9, bonus / 1000);
+
+    test('defaults to every referral being a hire', () => {
+      expect(sim.getConfig().conversionRate).toBe(1);
+      expect(sim.simulateHires(0.1, 5)).toEqual(sim.simulate(0.1, 5));
+    });
+
+    test('hires are referrals thinned by the conversion rate', () => {
+      const quarter = new NetworkSimulation({ conversionRate: 0.25 });
+      const referrals = quarter.simulate(0.1, 10);
+      quarter.simulateHires(0.1, 10).forEach((hires, i) => expect(hires).toBeCloseTo(referrals[i] * 0.25));
+    });
+
+    test('lower conversion means more days and a bigger bonus for the same hires', () => {
+      const half = new NetworkSimulation({ conversionRate: 0.5 });
+
+      expect(half.daysToTarget(0.1, 200)).toBeGreaterThan(sim.daysToTarget(0.1, 200));
+      expect(half.minBonusForTarget(30, 500, adoption)!).toBeGreaterThan(sim.minBonusForTarget(30, 500, adoption)!);
+
+      const criterion = { confidence: 0.9, trials: 100, seed: 3 };
+      expect(half.daysToTarget(0.1, 200, criterion)).toBeGreaterThan(sim.daysToTarget(0.1, 200, criterion));
+      expect(half.hitProbability(0.1, 10, 150, criterion)).toBeLessThan(sim.hitProbability(0.1, 10, 150, criterion));
+    });
+
+    test('zero conversion never hits a target', () => {
+      const never = new NetworkSimulation({ conversionRate: 0 });
+      expect(never.daysToTarget(0.1, 1)).toBe(-1);
+      expect(never.minBonusForTarget(30, 1, adoption)).toBeNull();
+    });
+
+    test('rejects rates outside [0, 1]', () => {
+      expect(() => new NetworkSimulation({ conversionRate: 1.5 })).toThrow(RangeError);
+      expect(() => new NetworkSimulation({ conversionRate: NaN })).toThrow(RangeError);
+    });
+  });
+
+  describe('seeding from a real network', () => {
+    let network: ReferralNetwork;
+
+    beforeEach(() => {
+      // alice is maxed out at 2, bob has 1 left, the rest have 2 left
+      network = new ReferralNetwork();
+      network.addReferral('alice', 'bob');
+      network.addReferral('alice', 'charlie');
+      network.addReferral('bob', 'david');
+    });
+
+    test('derives starting referrers and remaining capacity', () => {
+      const seeded = NetworkSimulation.fromNetwork(network, { maxRefsPerUser: 2 });
+      const config = seeded.getConfig();
+
+      expect(config.startingReferrers).toBe(4);
+      expect([...config.initialRefCounts!].sort()).toEqual([0, 0, 1, 2]);
+
+      // 3 people can still refer on day one
+      expect(seeded.simulate(1, 1)[0]).toBe(3);
+    });
+
+    test('estimates per-user referral prob from history', () => {
+      const estimate = NetworkSimulation.estimateReferralProb(network, 10);
+
+      expect(estimate.perUser.get('alice')).toBeCloseTo(0.2);
+      expect(estimate.perUser.get('charlie')).toBe(0);
+      expect(estimate.mean).toBeCloseTo(0.3 / 4);
+      expect(() => NetworkSimulation.estimateReferralProb(network, 0)).toThrow(RangeError);
+    });
+
+    test('projects a network with the original edges plus synthetic users', () => {
+      const seeded = NetworkSimulation.fromNetwork(network, { maxRefsPerUser: 2 });
+      const projected = seeded.projectNetwork(0.5, 5, { seed: 3 });
+
+      expect(projected.getReferrer('david')).toBe('bob');
+      expect(projected.getDirectRefs('alice').sort()).toEqual(['bob', 'charlie']); // already maxed
+      expect(projected.getAllUsers().length).toBeGreaterThan(4);
+      expect(projected.getTotalReach('alice')).toBeGreaterThanOrEqual(3);
+
+      for (const user of projected.getAllUsers()) {
+        expect(projected.getDirectRefs(user).length).toBeLessThanOrEqual(2);
+      }
+    });
+
+    test('projection is reproducible and respects maxNewUsers', () => {
+      const seeded = NetworkSimulation.fromNetwork(network);
+      const a = seeded.projectNetwork(0.9, 10, { seed: 11, maxNewUsers: 50 });
+      const b = seeded.projectNetwork(0.9, 10, { seed: 11, maxNewUsers: 50 });
+
+      expect(a.getAllUsers()).toEqual(b.getAllUsers());
+      expect(a.getAllUsers().length).toBe(4 + 50);
+    });
+  });
+
   describe('edge cases', () => {
     test('tiny probability values', () => {
       const results = sim.simulate(0.001, 10);
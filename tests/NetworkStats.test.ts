@@ -0,0 +1,93 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { NetworkStats } from '../src/analytics/NetworkStats';
+
+describe('NetworkStats', () => {
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    // alice -> bob, charlie; bob -> david; erin -> frank
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob');
+    network.addReferral('alice', 'charlie');
+    network.addReferral('bob', 'david');
+    network.addReferral('erin', 'frank');
+  });
+
+  test('counts users, roots and trees', () => {
+    const stats = NetworkStats.compute(network);
+
+    expect(stats.userCount).toBe(6);
+    expect(stats.edgeCount).toBe(4);
+    expect(stats.rootCount).toBe(2);
+    expect(stats.treeCount).toBe(2);
+    expect(stats.maxDepth).toBe(2);
+  });
+
+  test('depth and out-degree distributions', () => {
+    const stats = NetworkStats.compute(network);
+
+    expect(stats.depthDistribution).toEqual([2, 3, 1]);
+    // charlie, david, frank have none; bob, erin one; alice two
+    expect(stats.outDegreeHistogram).toEqual([3, 2, 1]);
+    expect(stats.averageBranchingFactor).toBeCloseTo(4 / 3);
+  });
+
+  test('largest subtrees come biggest first', () => {
+    expect(NetworkStats.compute(network).largestSubtrees).toEqual([
+      { user: 'alice', size: 4 },
+      { user: 'erin', size: 2 }
+    ]);
+    expect(NetworkStats.compute(network, { topSubtrees: 1 }).largestSubtrees).toHaveLength(1);
+  });
+
+  test('gini matches the textbook formula', () => {
+    const stats = NetworkStats.compute(network);
+
+    const reaches = network.getAllUsers().map(u => network.getTotalReach(u));
+    let pairs = 0;
+    for (const x of reaches) for (const y of reaches) pairs += Math.abs(x - y);
+    const mean = reaches.reduce((a, b) => a + b, 0) / reaches.length;
+    const expected = pairs / (2 * reaches.length ** 2 * mean);
+
+    expect(stats.reachGini).toBeCloseTo(expected);
+  });
+
+  test('gini edge cases', () => {
+    expect(NetworkStats.compute(new ReferralNetwork()).reachGini).toBe(0);
+
+    // one root referring everyone is about as unequal as a tree gets
+    const star = new ReferralNetwork();
+    for (let i = 0; i < 100; i++) star.addReferral('hub', `u${i}`);
+    expect(NetworkStats.compute(star).reachGini).toBeCloseTo(1 - 1 / 101);
+  });
+
+  test('empty network', () => {
+    expect(NetworkStats.compute(new ReferralNetwork())).toEqual({
+      userCount: 0,
+      edgeCount: 0,
+      rootCount: 0,
+      treeCount: 0,
+      maxDepth: 0,
+      depthDistribution: [],
+      outDegreeHistogram: [],
+      averageBranchingFactor: 0,
+      reachGini: 0,
+      largestSubtrees: []
+    });
+  });
+
+  test('diff between two snapshots', () => {
+    const before = NetworkStats.compute(network);
+    network.addReferral('david', 'gina');
+    network.addReferral('hank', 'ivan');
+
+    const diff = NetworkStats.diff(before, network);
+
+    expect(diff.userCount).toEqual({ before: 6, after: 9, change: 3 });
+    expect(diff.rootCount.change).toBe(1);
+    expect(diff.maxDepth).toEqual({ before: 2, after: 3, change: 1 });
+    expect(diff.depthDistribution).toEqual([1, 1, 0, 1]);
+    expect(diff.largestSubtrees.entered).toEqual(['hank']);
+    expect(diff.largestSubtrees.left).toEqual([]);
+  });
+});
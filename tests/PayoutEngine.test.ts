@@ -0,0 +1,136 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { DEFAULT_MAX_BONUS, NetworkSimulation } from '../src/simulation/NetworkSimulation';
+import { PayoutEngine } from '../src/payouts/PayoutEngine';
+
+describe('PayoutEngine', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    // alice -> bob -> charlie -> david -> erin
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob');
+    network.addReferral('bob', 'charlie');
+    network.addReferral('charlie', 'david');
+    network.addReferral('david', 'erin');
+  });
+
+  const plan = { baseBonus: 1000, levels: [1, 0.2, 0.05] };
+
+  test('pays each level up the chain', () => {
+    const ledger = new PayoutEngine(network, plan).run([{ candidate: 'erin', hiredAt: 0 }], 1);
+
+    expect(ledger.audit.map(i => [i.beneficiary, i.level, i.amount])).toEqual([
+      ['david', 1, 1000],
+      ['charlie', 2, 200],
+      ['bob', 3, 50]
+    ]);
+    expect(ledger.totalVested).toBe(1250);
+    expect(ledger.entries[0]).toMatchObject({ user: 'david', vested: 1000, pending: 0 });
+  });
+
+  test('short chains only pay the levels that exist', () => {
+    const ledger = new PayoutEngine(network, plan).run([{ candidate: 'bob', hiredAt: 0, bonus: 500 }]);
+
+    expect(ledger.audit).toHaveLength(1);
+    expect(ledger.audit[0]).toMatchObject({ beneficiary: 'alice', amount: 500 });
+  });
+
+  test('roots have nobody to pay', () => {
+    const ledger = new PayoutEngine(network, plan).run([{ candidate: 'alice', hiredAt: 0, id: 'h1' }]);
+
+    expect(ledger.audit).toEqual([]);
+    expect(ledger.skipped).toEqual([{ hireId: 'h1', candidate: 'alice', reason: 'NO_REFERRER' }]);
+  });
+
+  test('per-user caps apply first come first served', () => {
+    network.addReferral('david', 'frank');
+    const capped = new PayoutEngine(network, { ...plan, perUserCap: 1500 });
+
+    const ledger = capped.run([
+      { candidate: 'frank', hiredAt: 2, id: 'late' },
+      { candidate: 'erin', hiredAt: 1, id: 'early' }
+    ]);
+    const david = ledger.entries.find(e => e.user === 'david')!;
+
+    expect(david.vested).toBe(1500);
+    expect(david.items.map(i => [i.hireId, i.amount, i.capped])).toEqual([
+      ['early', 1000, false],
+      ['late', 500, true]
+    ]);
+  });
+
+  test('vesting waits for confirmation and the vesting period', () => {
+    const vesting = new PayoutEngine(network, {
+      ...plan,
+      vesting: { requireConfirmation: true, vestingDays: 30 }
+    });
+
+    const hires = [
+      { candidate: 'erin', hiredAt: 0, id: 'unconfirmed' },
+      { candidate: 'david', hiredAt: 0, confirmedAt: 10 * DAY, id: 'confirmed' }
+    ];
+
+    const early = vesting.run(hires, 20 * DAY);
+    expect(early.totalVested).toBe(0);
+    expect(early.totalPending).toBe(1250 + 1250);
+    expect(early.audit.find(i => i.hireId === 'unconfirmed')!.vestsAt).toBeNull();
+
+    const later = vesting.run(hires, 40 * DAY);
+    expect(later.totalVested).toBe(1250);
+    expect(later.audit.find(i => i.hireId === 'confirmed')!.vestsAt).toBe(40 * DAY);
+  });
+
+  test('rejects nonsense plans', () => {
+    expect(() => new PayoutEngine(network, { baseBonus: -1, levels: [1] })).toThrow(RangeError);
+    expect(() => new PayoutEngine(network, { baseBonus: 100, levels: [] })).toThrow(RangeError);
+    expect(() => new PayoutEngine(network, { baseBonus: 100, levels: [1, -0.5] })).toThrow(RangeError);
+    expect(() => new PayoutEngine(network, { baseBonus: 100, levels: [1], perUserCap: -5 })).toThrow(RangeError);
+  });
+
+  describe('what-if', () => {
+    test('cost multiplier follows the depth distribution', () => {
+      // depths 0..4 -> chain lengths 1, 2, 3, 3, 3 (capped at 3 levels)
+      const engine = new PayoutEngine(network, plan);
+      expect(engine.expectedCostMultiplier()).toBeCloseTo((1 + 1.2 + 1.25 * 3) / 5);
+
+      const empty = new PayoutEngine(new ReferralNetwork(), plan);
+      expect(empty.expectedCostMultiplier()).toBeCloseTo(1.25);
+    });
+
+    test('searches on what a hire costs across the whole plan', () => {
+      const engine = new PayoutEngine(network, plan);
+      const sim = new NetworkSimulation();
+      const adoption = (bonus: number) => Math.min(0.9, bonus / 1000);
+      const multiplier = engine.expectedCostMultiplier();
+
+      const result = engine.whatIf(sim, 30, 500, adoption)!;
+
+      expect(result.costPerHire).toBe(sim.minBonusForTarget(30, 500, cost => adoption(cost / multiplier)));
+      expect(result.costPerHire % 10).toBe(0);
+      expect(result.bonus).toBeCloseTo(result.costPerHire / multiplier);
+      expect(result.totalCost).toBeCloseTo(result.costPerHire * 500);
+      // same target, so the bonus lands within one $10 step of a plain bonus search
+      expect(Math.abs(result.bonus - sim.minBonusForTarget(30, 500, adoption)!)).toBeLessThan(10);
+      expect(engine.whatIf(sim, 5, 1e9, () => 0.001)).toBeNull();
+
+      const free = new PayoutEngine(network, { baseBonus: 100, levels: [0] });
+      expect(free.whatIf(sim, 30, 500, adoption)).toMatchObject({ bonus: sim.minBonusForTarget(30, 500, adoption), costPerHire: 0 });
+    });
+
+    test('a plan costing more than its bonus still reaches the top of the bonus range', () => {
+      // every level pays the full bonus, so a hire costs 3x the headline
+      const engine = new PayoutEngine(new ReferralNetwork(), { baseBonus: 100, levels: [1, 1, 1] });
+      const sim = new NetworkSimulation();
+      const adoption = (bonus: number) => (bonus >= 9000 ? 0.9 : 0.001);
+      expect(engine.expectedCostMultiplier()).toBe(3);
+
+      const result = engine.whatIf(sim, 30, 500, adoption)!;
+
+      expect(result).not.toBeNull();
+      expect(result.bonus).toBeGreaterThanOrEqual(9000);
+      expect(Math.abs(result.bonus - sim.minBonusForTarget(30, 500, adoption)!)).toBeLessThan(10);
+      expect(result.costPerHire).toBeGreaterThan(DEFAULT_MAX_BONUS);
+    });
+  });
+});
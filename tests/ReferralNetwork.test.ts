@@ -1,4 +1,79 @@
 import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { randomForest } from './fixtures';
+
+/**
+ * the original all-pairs floyd-warshall centrality, kept as a reference
+ */
+function referenceCentrality(network: ReferralNetwork): Map<string, number> {
+  const people = network.getAllUsers();
+  const dist = new Map<string, Map<string, number>>();
+
+  for (const a of people) {
+    dist.set(a, new Map(people.map(b => [b, a === b ? 0 : Infinity])));
+  }
+  for (const a of people) {
+    for (const b of network.getDirectRefs(a)) {
+      dist.get(a)!.set(b, 1);
+    }
+  }
+  for (const k of people) {
+    for (const i of people) {
+      for (const j of people) {
+        const through = dist.get(i)!.get(k)! + dist.get(k)!.get(j)!;
+        if (through < dist.get(i)!.get(j)!) dist.get(i)!.set(j, through);
+      }
+    }
+  }
+
+  const scores = new Map(people.map(p => [p, 0]));
+  for (const src of people) {
+    for (const dest of people) {
+      const direct = dist.get(src)!.get(dest)!;
+      if (src === dest || direct === Infinity) continue;
+      for (const mid of people) {
+        if (mid === src || mid === dest) continue;
+        if (dist.get(src)!.get(mid)! + dist.get(mid)!.get(dest)! === direct) {
+          scores.set(mid, scores.get(mid)! + 1);
+        }
+      }
+    }
+  }
+  return scores;
+}
+
+// plain bfs reach and brute force greedy, what the index has to agree with
+function bfsReach(network: ReferralNetwork, user: string): string[] {
+  const out: string[] = [];
+  const queue = [user];
+  while (queue.length > 0) {
+    for (const ref of network.getDirectRefs(queue.shift()!)) {
+      out.push(ref);
+      queue.push(ref);
+    }
+  }
+  return out;
+}
+
+function bruteForceGreedyGains(network: ReferralNetwork, k: number): number[] {
+  const covered = new Set<string>();
+  const gains: number[] = [];
+  for (let i = 0; i < k; i++) {
+    let best = 0;
+    let bestReach: string[] = [];
+    for (const user of network.getAllUsers()) {
+      const reach = bfsReach(network, user);
+      const gain = reach.filter(r => !covered.has(r)).length;
+      if (gain > best) {
+        best = gain;
+        bestReach = reach;
+      }
+    }
+    if (best === 0) break;
+    gains.push(best);
+    bestReach.forEach(r => covered.add(r));
+  }
+  return gains;
+}
 
 describe('ReferralNetwork', () => {
   let network: ReferralNetwork;
@@ -115,6 +190,912 @@ describe('ReferralNetwork', () => {
     });
   });
 
+  describe('timestamps and temporal queries', () => {
+    const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+
+    beforeEach(() => {
+      network.addReferral('alice', 'bob', { timestamp: day(1), metadata: { channel: 'slack', jobId: 'eng-1' } });
+      network.addReferral('alice', 'charlie', { timestamp: day(10) });
+      network.addReferral('bob', 'david', { timestamp: day(15) });
+      network.addReferral('charlie', 'eve', { timestamp: day(40) });
+    });
+
+    test('keeps timestamp and metadata on each edge', () => {
+      const edge = network.getReferralEdge('bob');
+
+      expect(edge).toEqual({
+        referrer: 'alice',
+        candidate: 'bob',
+        timestamp: day(1).getTime(),
+        metadata: { channel: 'slack', jobId: 'eng-1' }
+      });
+      expect(network.getReferralEdge('alice')).toBeNull();
+    });
+
+    test('defaults timestamp to now and rejects garbage', () => {
+      const before = Date.now();
+      network.addReferral('zed', 'yan');
+      expect(network.getReferralEdge('yan')!.timestamp).toBeGreaterThanOrEqual(before);
+
+      expect(() => network.addReferral('zed', 'xi', { timestamp: NaN })).toThrow(TypeError);
+      expect(() => network.addReferral('zed', 'xi', { timestamp: '2024-05-01' as never })).toThrow(TypeError);
+      expect(() => network.addReferral('zed', 'xi', { timestamp: new Date('nope') })).toThrow(TypeError);
+      expect(network.hasUser('xi')).toBe(false);
+      expect(network.addReferral('zed', 'xi', { timestamp: new Date(5) })).toBe(true);
+      expect(network.getReferralEdge('xi')!.timestamp).toBe(5);
+    });
+
+    test('windowed direct refs and reach', () => {
+      const january = { from: day(1), to: day(32) };
+
+      expect(network.getDirectRefsInWindow('alice', { from: day(5) })).toEqual(['charlie']);
+      expect(network.getTotalReachInWindow('alice', january)).toBe(3); // bob, charlie, david
+      expect(network.getTotalReachInWindow('alice', { from: day(32) })).toBe(1); // eve
+      expect(network.getTotalReachInWindow('alice', { to: day(1) })).toBe(0); // to is exclusive
+    });
+
+    test('windowed top referrers', () => {
+      const top = network.getTopReferrersInWindow(2, { from: day(12) });
+
+      expect(top[0]).toEqual({ user: 'alice', totalReferrals: 2 });
+      expect(top[1].totalReferrals).toBe(1);
+    });
+
+    test('snapshot shows the network as it was', () => {
+      const early = network.snapshotAt(day(12));
+
+      expect(early.getAllUsers().sort()).toEqual(['alice', 'bob', 'charlie']);
+      expect(early.getTotalReach('alice')).toBe(2);
+      expect(early.getReferralEdge('bob')!.metadata).toEqual({ channel: 'slack', jobId: 'eng-1' });
+
+      // original untouched
+      expect(network.getTotalReach('alice')).toBe(4);
+    });
+  });
+
+  describe('structured rejections', () => {
+    test('tryAddReferral explains each rejection', () => {
+      network.addReferral('alice', 'bob');
+      network.addReferral('bob', 'charlie');
+
+      expect(network.tryAddReferral('dave', 'erin')).toEqual({ status: 'ok' });
+      expect(network.tryAddReferral('alice', 'alice')).toEqual({ status: 'SELF_REFERRAL' });
+      expect(network.tryAddReferral('dave', 'bob')).toEqual({ status: 'ALREADY_REFERRED', existingReferrer: 'alice' });
+      expect(network.tryAddReferral('charlie', 'alice')).toEqual({ status: 'CYCLE', path: ['alice', 'bob', 'charlie'] });
+    });
+
+    test('batch reports every outcome', () => {
+      const batch = network.addReferrals([
+        { referrer: 'alice', candidate: 'bob' },
+        { referrer: 'bob', candidate: 'bob' },
+        { referrer: 'bob', candidate: 'charlie', timestamp: 5 },
+        { referrer: 'charlie', candidate: 'alice' }
+      ]);
+
+      expect(batch.committed).toBe(true);
+      expect(batch.added).toBe(2);
+      expect(batch.results.map(r => r.status)).toEqual(['ok', 'SELF_REFERRAL', 'ok', 'CYCLE']);
+      expect(network.getReferralEdge('charlie')!.timestamp).toBe(5);
+    });
+
+    test('atomic batch rolls back on any rejection', () => {
+      network.addReferral('zed', 'yan');
+
+      const batch = network.addReferrals([
+        { referrer: 'alice', candidate: 'bob' },
+        { referrer: 'bob', candidate: 'charlie' },
+        { referrer: 'alice', candidate: 'yan' }
+      ], { atomic: true });
+
+      expect(batch.committed).toBe(false);
+      expect(batch.added).toBe(0);
+      expect(batch.results[2]).toEqual({ status: 'ALREADY_REFERRED', existingReferrer: 'zed' });
+      expect(network.getAllUsers().sort()).toEqual(['yan', 'zed']);
+    });
+
+    test('atomic batch rolls back when input is bad', () => {
+      expect(() => network.addReferrals([
+        { referrer: 'alice', candidate: 'bob' },
+        { referrer: 'alice', candidate: 'charlie', timestamp: NaN }
+      ], { atomic: true })).toThrow(TypeError);
+
+      expect(network.hasUser('bob')).toBe(false);
+    });
+
+    test('clean atomic batch commits', () => {
+      const batch = network.addReferrals([
+        { referrer: 'alice', candidate: 'bob' },
+        { referrer: 'bob', candidate: 'charlie' }
+      ], { atomic: true });
+
+      expect(batch).toMatchObject({ committed: true, added: 2 });
+      expect(network.getTotalReach('alice')).toBe(2);
+    });
+  });
+
+  describe('removal, reassignment and merges', () => {
+    beforeEach(() => {
+      // alice -> bob -> (charlie, david), alice -> eve, zed -> yan
+      network.addReferral('alice', 'bob', { timestamp: 1, metadata: { channel: 'email' } });
+      network.addReferral('bob', 'charlie', { timestamp: 2 });
+      network.addReferral('bob', 'david', { timestamp: 3 });
+      network.addReferral('alice', 'eve', { timestamp: 4 });
+      network.addReferral('zed', 'yan', { timestamp: 5 });
+    });
+
+    test('remove a single referral', () => {
+      expect(network.removeReferral('alice', 'bob')).toEqual({ status: 'ok' });
+      expect(network.getReferrer('bob')).toBeNull();
+      expect(network.getDirectRefs('bob').sort()).toEqual(['charlie', 'david']);
+      expect(network.getTotalReach('alice')).toBe(1);
+
+      expect(network.removeReferral('zed', 'bob')).toEqual({ status: 'NOT_REFERRED', candidate: 'bob', referrer: 'zed' });
+    });
+
+    test('removed edge frees the candidate for a new referrer', () => {
+      network.removeReferral('zed', 'yan');
+      expect(network.hasUser('zed')).toBe(false);
+      expect(network.addReferral('alice', 'yan')).toBe(true);
+    });
+
+    test('remove user and orphan their referrals', () => {
+      expect(network.removeUser('bob')).toEqual({ status: 'ok' });
+
+      expect(network.hasUser('bob')).toBe(false);
+      expect(network.getReferrer('charlie')).toBeNull();
+      expect(network.getDirectRefs('alice')).toEqual(['eve']);
+    });
+
+    test('remove user and reparent their referrals', () => {
+      expect(network.removeUser('bob', 'reparent')).toEqual({ status: 'ok' });
+
+      expect(network.hasUser('bob')).toBe(false);
+      expect(network.getDirectRefs('alice').sort()).toEqual(['charlie', 'david', 'eve']);
+      expect(network.getReferralEdge('charlie')!.timestamp).toBe(2);
+    });
+
+    test('remove unknown user', () => {
+      expect(network.removeUser('nobody')).toEqual({ status: 'UNKNOWN_USER', user: 'nobody' });
+    });
+
+    test('reassign moves the whole subtree and keeps edge info', () => {
+      expect(network.reassignReferrer('bob', 'zed')).toEqual({ status: 'ok' });
+
+      expect(network.getReferrer('bob')).toBe('zed');
+      expect(network.getTotalReach('zed')).toBe(4);
+      expect(network.getReferralEdge('bob')).toMatchObject({ timestamp: 1, metadata: { channel: 'email' } });
+    });
+
+    test('reassign enforces the usual invariants', () => {
+      expect(network.reassignReferrer('bob', 'bob')).toEqual({ status: 'SELF_REFERRAL' });
+      expect(network.reassignReferrer('bob', 'charlie')).toEqual({ status: 'CYCLE', path: ['bob', 'charlie'] });
+      expect(network.reassignReferrer('alice', 'david')).toEqual({ status: 'CYCLE', path: ['alice', 'bob', 'david'] });
+      expect(network.reassignReferrer('ghost', 'alice')).toEqual({ status: 'UNKNOWN_USER', user: 'ghost' });
+      expect(network.getReferrer('bob')).toBe('alice');
+    });
+
+    test('merge moves referrals and inherits the referrer', () => {
+      network.addReferral('bob2', 'frank');
+
+      expect(network.mergeUsers('bob2', 'bob')).toEqual({ status: 'ok' });
+      expect(network.hasUser('bob')).toBe(false);
+      expect(network.getReferrer('bob2')).toBe('alice');
+      expect(network.getDirectRefs('bob2').sort()).toEqual(['charlie', 'david', 'frank']);
+      expect(network.getReferralEdge('bob2')!.metadata).toEqual({ channel: 'email' });
+    });
+
+    test('merge rejects conflicting referrers and cycles', () => {
+      expect(network.mergeUsers('yan', 'bob')).toEqual({ status: 'ALREADY_REFERRED', existingReferrer: 'zed' });
+      expect(network.mergeUsers('charlie', 'alice')).toEqual({ status: 'CYCLE', path: ['alice', 'bob', 'charlie'] });
+      expect(network.mergeUsers('alice', 'ghost')).toEqual({ status: 'UNKNOWN_USER', user: 'ghost' });
+
+      // nothing changed
+      expect(network.getTotalReach('alice')).toBe(4);
+    });
+
+    test('merge a descendant into its ancestor', () => {
+      expect(network.mergeUsers('alice', 'bob')).toEqual({ status: 'ok' });
+      expect(network.getDirectRefs('alice').sort()).toEqual(['charlie', 'david', 'eve']);
+      expect(network.getReferrer('alice')).toBeNull();
+    });
+  });
+
+  describe('json persistence', () => {
+    test('round trips through JSON.stringify', () => {
+      network.addReferral('alice', 'bob', { timestamp: 2, metadata: { channel: 'slack' } });
+      network.addReferral('bob', 'charlie', { timestamp: 1 });
+
+      const loaded = ReferralNetwork.fromJSON(JSON.stringify(network));
+
+      expect(loaded.toJSON()).toEqual(network.toJSON());
+      expect(loaded.toJSON().version).toBe(2);
+      expect(loaded.toJSON().referrals.map(r => r.candidate)).toEqual(['charlie', 'bob']); // oldest first
+      expect(loaded.getReferralEdge('bob')!.metadata).toEqual({ channel: 'slack' });
+    });
+
+    test('still reads version 1 files', () => {
+      const loaded = ReferralNetwork.fromJSON({ version: 1, referrals: [{ referrer: 'a', candidate: 'b', timestamp: 1 }] });
+
+      expect(loaded.getCandidateStatus('b')).toBe('referred');
+      expect(loaded.toJSON().version).toBe(2);
+    });
+
+    test('rejects unknown versions and broken data', () => {
+      expect(() => ReferralNetwork.fromJSON({ version: 99, referrals: [] })).toThrow(/version 99/);
+      expect(() => ReferralNetwork.fromJSON('{"nope": true}')).toThrow(TypeError);
+      expect(() => ReferralNetwork.fromJSON({
+        version: 1,
+        referrals: [
+          { referrer: 'a', candidate: 'b', timestamp: 1 },
+          { referrer: 'b', candidate: 'a', timestamp: 2 }
+        ]
+      })).toThrow(/CYCLE/);
+    });
+
+    test('rejects missing or string timestamps instead of guessing', () => {
+      const edges = (timestamp: unknown) => ({
+        version: 1,
+        referrals: [{ referrer: 'a', candidate: 'b', timestamp }]
+      }) as never;
+
+      expect(() => ReferralNetwork.fromJSON(edges(undefined))).toThrow(/referral #0 a -> b has a missing or malformed timestamp/);
+      expect(() => ReferralNetwork.fromJSON(edges('2024-05-01T00:00:00Z'))).toThrow(TypeError);
+      expect(() => ReferralNetwork.fromJSON(edges(null))).toThrow(TypeError);
+      expect(() => ReferralNetwork.fromJSON({
+        version: 1,
+        referrals: [{ referrer: 'a', candidate: 'b', timestamp: 1, statusHistory: [{ status: 'hired', at: 'soon' }] }]
+      } as never)).toThrow(/status hired for b has a missing or malformed time/);
+    });
+
+    test('rejects malformed metadata and user attributes', () => {
+      const withMetadata = (metadata: unknown) => ({
+        version: 2,
+        referrals: [{ referrer: 'a', candidate: 'b', timestamp: 1, metadata }]
+      }) as never;
+
+      expect(() => ReferralNetwork.fromJSON(withMetadata('slack'))).toThrow(/referral #0 a -> b has malformed metadata/);
+      expect(() => ReferralNetwork.fromJSON(withMetadata(['slack']))).toThrow(TypeError);
+      expect(() => ReferralNetwork.fromJSON(withMetadata({ channel: 5 }))).toThrow(TypeError);
+      expect(ReferralNetwork.fromJSON(withMetadata({ channel: 'slack' })).getReferralEdge('b')!.metadata).toEqual({ channel: 'slack' });
+
+      for (const attributes of ['eng', 42, null, ['eng']]) {
+        expect(() => ReferralNetwork.fromJSON({ version: 2, referrals: [], users: { alice: attributes } } as never))
+          .toThrow(/attributes for user alice must be an object/);
+      }
+    });
+  });
+
+  describe('scalable flow centrality', () => {
+    test('matches the floyd-warshall reference on small forests', () => {
+      for (const seed of [1, 2, 3, 4]) {
+        const forest = randomForest(40, seed);
+        const expected = referenceCentrality(forest);
+
+        for (const { user, centralityScore } of forest.getFlowCentralityRanking()) {
+          expect(centralityScore).toBe(expected.get(user));
+        }
+      }
+    });
+
+    test('chain middle is the broker', () => {
+      network.addReferral('a', 'b');
+      network.addReferral('b', 'c');
+      network.addReferral('c', 'd');
+
+      const scores = new Map(network.getFlowCentralityRanking().map(r => [r.user, r.centralityScore]));
+      expect(scores.get('b')).toBe(2); // (a, c), (a, d)
+      expect(scores.get('c')).toBe(2); // (a, d), (b, d)
+      expect(scores.get('a')).toBe(0);
+
+      const normalized = network.getFlowCentralityRanking({ normalized: true });
+      expect(normalized[0].centralityScore).toBeCloseTo(2 / 6);
+    });
+
+    test('sampling every source gives the exact scores', () => {
+      const forest = randomForest(60, 9);
+      const n = forest.getAllUsers().length;
+      const exact = new Map(forest.getFlowCentralityRanking().map(r => [r.user, r.centralityScore]));
+
+      for (const { user, centralityScore } of forest.getFlowCentralityRanking({ sampleSize: n })) {
+        expect(centralityScore).toBeCloseTo(exact.get(user)!);
+      }
+    });
+
+    test('sampled mode is reproducible and roughly right', () => {
+      // lots of identical short chains keeps the estimator's variance low
+      const forest = new ReferralNetwork();
+      for (let c = 0; c < 400; c++) {
+        for (let i = 1; i < 5; i++) {
+          forest.addReferral(`c${c}-${i - 1}`, `c${c}-${i}`);
+        }
+      }
+      const total = (ranking: Array<{ centralityScore: number }>) =>
+        ranking.reduce((sum, r) => sum + r.centralityScore, 0);
+      const exact = total(forest.getFlowCentralityRanking());
+      const a = forest.getFlowCentralityRanking({ sampleSize: 500, seed: 3 });
+      const b = forest.getFlowCentralityRanking({ sampleSize: 500, seed: 3 });
+
+      expect(a).toEqual(b);
+      // unbiased estimator, so the totals should land close
+      expect(Math.abs(total(a) - exact) / exact).toBeLessThan(0.1);
+      expect(() => forest.getFlowCentralityRanking({ sampleSize: 0 })).toThrow(RangeError);
+    });
+
+    test('handles large networks', () => {
+      const forest = randomForest(50000, 7);
+      const ranking = forest.getFlowCentralityRanking();
+      expect(ranking.length).toBe(forest.getAllUsers().length);
+    });
+  });
+
+  describe('incremental reach index', () => {
+    test('reach stays correct through every kind of mutation', () => {
+      const forest = randomForest(300, 21);
+      const users = forest.getAllUsers();
+      let state = 17;
+      const pick = () => users[(state = (state * 48271) % 2147483647) % users.length];
+
+      for (let step = 0; step < 200; step++) {
+        const [a, b] = [pick(), pick()];
+        switch (step % 5) {
+          case 0: forest.addReferral(a, b); break;
+          case 1: forest.removeReferral(forest.getReferrer(b) ?? a, b); break;
+          case 2: forest.reassignReferrer(b, a); break;
+          case 3: forest.removeUser(a, step % 2 === 0 ? 'orphan' : 'reparent'); break;
+          case 4: forest.mergeUsers(a, b); break;
+        }
+      }
+
+      for (const user of forest.getAllUsers()) {
+        expect(forest.getTotalReach(user)).toBe(bfsReach(forest, user).length);
+      }
+      expect(forest.getTotalReach('not-there')).toBe(0);
+    });
+
+    test('top referrers come out in reach order', () => {
+      const forest = randomForest(500, 4);
+      const top = forest.getTopReferrers(25);
+      const expected = forest.getAllUsers()
+        .map(user => bfsReach(forest, user).length)
+        .sort((a, b) => b - a)
+        .slice(0, 25);
+
+      expect(top.map(t => t.totalReferrals)).toEqual(expected);
+      for (const { user, totalReferrals } of top) {
+        expect(forest.getTotalReach(user)).toBe(totalReferrals);
+      }
+    });
+
+    test('unique reach influencers match the brute force greedy', () => {
+      for (const seed of [3, 8, 13]) {
+        const forest = randomForest(150, seed);
+        const gains = forest.getUniqueReachInfluencers(10).map(p => p.newReachAdded);
+        expect(gains).toEqual(bruteForceGreedyGains(forest, 10));
+      }
+    });
+
+    test('influencers skip people already covered by an ancestor', () => {
+      network.addReferral('alice', 'bob');
+      network.addReferral('bob', 'charlie');
+      network.addReferral('bob', 'david');
+      network.addReferral('eve', 'frank');
+
+      expect(network.getUniqueReachInfluencers(5)).toEqual([
+        { user: 'alice', newReachAdded: 3 },
+        { user: 'eve', newReachAdded: 1 }
+      ]);
+    });
+  });
+
+  describe('ancestry and lineage', () => {
+    beforeEach(() => {
+      // alice -> bob -> charlie -> david, bob -> eve, alice -> frank; zed -> yan
+      network.addReferral('alice', 'bob');
+      network.addReferral('bob', 'charlie');
+      network.addReferral('charlie', 'david');
+      network.addReferral('bob', 'eve');
+      network.addReferral('alice', 'frank');
+      network.addReferral('zed', 'yan');
+    });
+
+    test('referral chain walks up to the root', () => {
+      expect(network.getReferralChain('david')).toEqual(['charlie', 'bob', 'alice']);
+      expect(network.getReferralChain('alice')).toEqual([]);
+      expect(network.getReferralChain('nobody')).toEqual([]);
+    });
+
+    test('depth and roots', () => {
+      expect(network.getDepth('alice')).toBe(0);
+      expect(network.getDepth('david')).toBe(3);
+      expect(network.getDepth('yan')).toBe(1);
+      expect(network.getRoots().sort()).toEqual(['alice', 'zed']);
+    });
+
+    test('depth follows subtrees when they move', () => {
+      network.reassignReferrer('charlie', 'yan');
+      expect(network.getDepth('charlie')).toBe(2);
+      expect(network.getDepth('david')).toBe(3);
+
+      network.removeReferral('zed', 'yan');
+      expect(network.getDepth('david')).toBe(2);
+      expect(network.getRoots().sort()).toEqual(['alice', 'yan']);
+    });
+
+    test('lowest common referrer', () => {
+      expect(network.getLowestCommonReferrer('david', 'eve')).toBe('bob');
+      expect(network.getLowestCommonReferrer('david', 'frank')).toBe('alice');
+      expect(network.getLowestCommonReferrer('charlie', 'david')).toBe('charlie');
+      expect(network.getLowestCommonReferrer('david', 'yan')).toBeNull();
+      expect(network.getLowestCommonReferrer('david', 'nobody')).toBeNull();
+    });
+
+    test('subtree with and without depth limit', () => {
+      expect(network.getSubtree('bob')).toEqual(['bob', 'charlie', 'eve', 'david']);
+      expect(network.getSubtree('alice', 1)).toEqual(['alice', 'bob', 'frank']);
+      expect(network.getSubtree('alice', 0)).toEqual(['alice']);
+      expect(network.getSubtree('nobody')).toEqual([]);
+    });
+
+    test('everyone exactly n levels down', () => {
+      expect(network.getLevel('alice', 0)).toEqual(['alice']);
+      expect(network.getLevel('alice', 1)).toEqual(['bob', 'frank']);
+      expect(network.getLevel('alice', 2)).toEqual(['charlie', 'eve']);
+      expect(network.getLevel('alice', 5)).toEqual([]);
+      expect(() => network.getLevel('alice', -1)).toThrow(RangeError);
+    });
+  });
+
+  describe('event subscriptions', () => {
+    test('reports added users and referrals in order', () => {
+      const seen: string[] = [];
+      network.on('userAdded', ({ user }) => seen.push(`user:${user}`));
+      network.on('referralAdded', ({ edge }) => seen.push(`ref:${edge.referrer}->${edge.candidate}`));
+
+      network.addReferral('alice', 'bob', { timestamp: 1 });
+      network.addReferral('bob', 'charlie', { timestamp: 2 });
+
+      expect(seen).toEqual(['user:alice', 'user:bob', 'ref:alice->bob', 'user:charlie', 'ref:bob->charlie']);
+    });
+
+    test('reassignments and merges announce new users and edges too', () => {
+      network.addReferral('a', 'b', { timestamp: 1 });
+      network.addReferral('b', 'c', { timestamp: 2 });
+      const seen: string[] = [];
+      network.on('userAdded', ({ user }) => seen.push(`user:${user}`));
+      network.on('referralAdded', ({ edge }) => seen.push(`ref:${edge.referrer}->${edge.candidate}@${edge.timestamp}`));
+
+      network.reassignReferrer('b', 'z');
+      expect(seen).toEqual(['user:z', 'ref:z->b@1']);
+
+      seen.length = 0;
+      network.mergeUsers('q', 'b');
+      expect(seen).toEqual(['user:q', 'ref:q->c@2', 'ref:z->q@1']);
+    });
+
+    test('those events wait for the transaction and vanish with a rollback', () => {
+      network.addReferral('a', 'b');
+      const added = jest.fn();
+      network.on('userAdded', added);
+      network.on('referralAdded', added);
+
+      network.transaction(tx => {
+        tx.reassignReferrer('b', 'z');
+        expect(added).not.toHaveBeenCalled();
+        tx.addReferral('b', 'b'); // rejected, rolls everything back
+      });
+      expect(added).not.toHaveBeenCalled();
+      expect(network.hasUser('z')).toBe(false);
+
+      network.transaction(tx => tx.mergeUsers('q', 'a'));
+      expect(added.mock.calls.map(([e]) => e)).toEqual([{ user: 'q' }, { edge: expect.objectContaining({ referrer: 'q', candidate: 'b' }) }]);
+    });
+
+    test('rejections carry the reason', () => {
+      const rejected = jest.fn();
+      network.on('referralRejected', rejected);
+      network.addReferral('alice', 'bob');
+      network.addReferral('bob', 'alice');
+
+      expect(rejected).toHaveBeenCalledWith({
+        referrer: 'bob',
+        candidate: 'alice',
+        reason: { status: 'CYCLE', path: ['alice', 'bob'] }
+      });
+    });
+
+    test('fires reach milestones once for every ancestor crossing them', () => {
+      network = new ReferralNetwork({ reachMilestones: [3, 2] });
+      const milestones: string[] = [];
+      network.on('reachMilestone', ({ user, milestone }) => milestones.push(`${user}@${milestone}`));
+
+      network.addReferral('root', 'a');
+      network.addReferral('a', 'b');
+      network.addReferral('b', 'c');
+      network.addReferral('b', 'd');
+
+      expect(milestones).toEqual(['root@2', 'a@2', 'root@3', 'b@2', 'a@3']);
+    });
+
+    test('a reassignment can cross a milestone in one jump', () => {
+      network = new ReferralNetwork({ reachMilestones: [2, 3] });
+      network.addReferral('a', 'b');
+      network.addReferral('b', 'c');
+      network.addReferral('b', 'd');
+      const milestones = jest.fn();
+      network.on('reachMilestone', milestones);
+
+      network.reassignReferrer('b', 'zed');
+
+      expect(milestones.mock.calls.map(([e]) => e)).toEqual([
+        { user: 'zed', milestone: 2, reach: 3 },
+        { user: 'zed', milestone: 3, reach: 3 }
+      ]);
+    });
+
+    test('unsubscribe stops delivery', () => {
+      const added = jest.fn();
+      const off = network.on('referralAdded', added);
+      network.addReferral('alice', 'bob');
+      off();
+      network.addReferral('alice', 'charlie');
+
+      expect(added).toHaveBeenCalledTimes(1);
+    });
+
+    test('a throwing listener does not corrupt the graph or starve other listeners', () => {
+      const errors: unknown[] = [];
+      network = new ReferralNetwork({ onListenerError: err => errors.push(err) });
+      const after = jest.fn();
+      network.on('referralAdded', () => {
+        throw new Error('boom');
+      });
+      network.on('referralAdded', after);
+
+      expect(network.addReferral('alice', 'bob')).toBe(true);
+      expect(network.getDirectRefs('alice')).toEqual(['bob']);
+      expect(network.getTotalReach('alice')).toBe(1);
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(errors).toEqual([new Error('boom')]);
+    });
+
+    test('a rolled back atomic batch only reports its rejections', () => {
+      const added = jest.fn();
+      const rejected = jest.fn();
+      network.on('referralAdded', added);
+      network.on('referralRejected', rejected);
+
+      network.addReferrals(
+        [
+          { referrer: 'alice', candidate: 'bob' },
+          { referrer: 'bob', candidate: 'bob' }
+        ],
+        { atomic: true }
+      );
+      expect(added).not.toHaveBeenCalled();
+      expect(rejected).toHaveBeenCalledTimes(1);
+
+      network.addReferrals([{ referrer: 'alice', candidate: 'bob' }], { atomic: true });
+      expect(added).toHaveBeenCalledTimes(1);
+    });
+
+    test('rejects bad milestones', () => {
+      expect(() => new ReferralNetwork({ reachMilestones: [0] })).toThrow(RangeError);
+      expect(() => new ReferralNetwork({ reachMilestones: [2.5] })).toThrow(RangeError);
+    });
+  });
+
+  describe('transactions and undo history', () => {
+    beforeEach(() => {
+      network.addReferral('alice', 'bob', { timestamp: 1 });
+      network.addReferral('bob', 'charlie', { timestamp: 2 });
+    });
+
+    test('commits when every step goes through', () => {
+      const result = network.transaction(net => {
+        net.addReferral('alice', 'dave');
+        net.reassignReferrer('charlie', 'alice');
+        return net.getTotalReach('alice');
+      });
+
+      expect(result).toEqual({ committed: true, value: 3 });
+      expect(network.getDirectRefs('alice').sort()).toEqual(['bob', 'charlie', 'dave']);
+    });
+
+    test('rolls everything back when a step is rejected', () => {
+      const before = network.toJSON();
+      const result = network.transaction(net => {
+        net.addReferral('alice', 'dave');
+        net.removeUser('bob', 'reparent');
+        net.addReferral('charlie', 'alice'); // cycle now that charlie sits under alice
+      });
+
+      expect(result).toEqual({ committed: false, rejections: [{ status: 'CYCLE', path: ['alice', 'charlie'] }] });
+      expect(network.toJSON()).toEqual(before);
+      expect(network.getTotalReach('alice')).toBe(2);
+      expect(network.getDepth('charlie')).toBe(2);
+      expect(network.hasUser('dave')).toBe(false);
+    });
+
+    test('rolls back and rethrows when fn throws', () => {
+      expect(() =>
+        network.transaction(net => {
+          net.addReferral('alice', 'dave');
+          throw new Error('bad row');
+        })
+      ).toThrow('bad row');
+
+      expect(network.hasUser('dave')).toBe(false);
+      // the aborted transaction left nothing to undo
+      expect(network.undo()).toBe(true);
+      expect(network.getDirectRefs('bob')).toEqual([]);
+    });
+
+    test('a rolled back transaction only reports rejections', () => {
+      const added = jest.fn();
+      const rejected = jest.fn();
+      network.on('referralAdded', added);
+      network.on('referralRejected', rejected);
+
+      network.transaction(net => {
+        net.addReferral('alice', 'dave');
+        net.addReferral('dave', 'dave');
+      });
+
+      expect(added).not.toHaveBeenCalled();
+      expect(rejected).toHaveBeenCalledTimes(1);
+    });
+
+    test('undo and redo step through mutations', () => {
+      network.mergeUsers('alice', 'bob');
+      expect(network.getDirectRefs('alice')).toEqual(['charlie']);
+
+      expect(network.undo()).toBe(true);
+      expect(network.getReferralEdge('charlie')).toEqual({ referrer: 'bob', candidate: 'charlie', timestamp: 2 });
+      expect(network.getTotalReach('alice')).toBe(2);
+
+      expect(network.redo()).toBe(true);
+      expect(network.hasUser('bob')).toBe(false);
+      expect(network.getTotalReach('alice')).toBe(1);
+
+      // undo everything, then there's nothing left
+      expect(network.undo()).toBe(true);
+      expect(network.undo()).toBe(true);
+      expect(network.undo()).toBe(true);
+      expect(network.undo()).toBe(false);
+      expect(network.getAllUsers()).toEqual([]);
+    });
+
+    test('a transaction is a single undo step', () => {
+      network.transaction(net => {
+        net.addReferrals([
+          { referrer: 'charlie', candidate: 'dave' },
+          { referrer: 'dave', candidate: 'erin' }
+        ]);
+        net.removeReferral('alice', 'bob');
+      });
+
+      network.undo();
+      expect(network.getAllUsers().sort()).toEqual(['alice', 'bob', 'charlie']);
+      expect(network.getTotalReach('alice')).toBe(2);
+    });
+
+    test('a new mutation clears redo', () => {
+      network.undo();
+      network.addReferral('bob', 'dave');
+      expect(network.redo()).toBe(false);
+    });
+
+    test('checkpoints let analysts try hypotheticals and come back', () => {
+      const saved = network.checkpoint();
+
+      network.addReferrals([
+        { referrer: 'charlie', candidate: 'dave' },
+        { referrer: 'charlie', candidate: 'erin' }
+      ]);
+      network.addReferral('zed', 'yan');
+      expect(network.getUniqueReachInfluencers(1)).toEqual([{ user: 'alice', newReachAdded: 4 }]);
+      expect(network.getTotalReach('alice')).toBe(4);
+      const hypothetical = network.checkpoint();
+
+      network.restore(saved);
+      expect(network.getTotalReach('alice')).toBe(2);
+      expect(network.hasUser('zed')).toBe(false);
+
+      // and forward again, since nothing new happened in between
+      network.restore(hypothetical);
+      expect(network.getTotalReach('alice')).toBe(4);
+
+      network.restore(saved);
+      network.addReferral('alice', 'frank');
+      expect(() => network.restore(hypothetical)).toThrow('no longer in the history');
+    });
+
+    test('history is capped at historyLimit', () => {
+      network = new ReferralNetwork({ historyLimit: 2 });
+      const start = network.checkpoint();
+      network.addReferral('a', 'b');
+      network.addReferral('a', 'c');
+      network.addReferral('a', 'd');
+
+      expect(() => network.restore(start)).toThrow(RangeError);
+      expect(network.undo()).toBe(true);
+      expect(network.undo()).toBe(true);
+      expect(network.undo()).toBe(false);
+      expect(network.getDirectRefs('a')).toEqual(['b']);
+    });
+
+    test('no undo from inside a transaction', () => {
+      expect(() => network.transaction(net => net.undo())).toThrow("can't undo while a change is in progress");
+    });
+
+    test('loading from json starts with a clean history', () => {
+      const loaded = ReferralNetwork.fromJSON(network.toJSON());
+      expect(loaded.undo()).toBe(false);
+    });
+  });
+
+  describe('candidate pipeline', () => {
+    beforeEach(() => {
+      // alice -> bob -> (charlie, dave), alice -> erin
+      network.addReferral('alice', 'bob', { timestamp: 1 });
+      network.addReferral('bob', 'charlie', { timestamp: 2 });
+      network.addReferral('bob', 'dave', { timestamp: 3 });
+      network.addReferral('alice', 'erin', { timestamp: 4 });
+    });
+
+    test('candidates start as referred and keep a status history', () => {
+      expect(network.getCandidateStatus('bob')).toBe('referred');
+      expect(network.getCandidateStatus('alice')).toBeNull();
+
+      network.setCandidateStatus('bob', 'interviewed', { at: 10 });
+      network.setCandidateStatus('bob', 'hired', { at: 20 }); // skipping offered is fine
+
+      expect(network.getCandidateStatus('bob')).toBe('hired');
+      expect(network.getStatusHistory('bob')).toEqual([
+        { status: 'referred', at: 1 },
+        { status: 'interviewed', at: 10 },
+        { status: 'hired', at: 20 }
+      ]);
+      expect(network.getStatusHistory('alice')).toEqual([]);
+    });
+
+    test('only forward moves, and hired / rejected are final', () => {
+      network.setCandidateStatus('bob', 'offered', { at: 10 });
+
+      expect(network.setCandidateStatus('bob', 'interviewed', { at: 11 })).toEqual({
+        status: 'INVALID_TRANSITION', candidate: 'bob', from: 'offered', to: 'interviewed'
+      });
+      expect(network.setCandidateStatus('bob', 'rejected', { at: 12 })).toEqual({ status: 'ok' });
+      expect(network.setCandidateStatus('bob', 'hired', { at: 13 }).status).toBe('INVALID_TRANSITION');
+      expect(network.setCandidateStatus('alice', 'hired')).toMatchObject({ status: 'INVALID_TRANSITION', from: null });
+      expect(network.setCandidateStatus('nobody', 'hired')).toEqual({ status: 'UNKNOWN_USER', user: 'nobody' });
+    });
+
+    test('rejects unknown statuses and going back in time', () => {
+      expect(() => network.setCandidateStatus('bob', 'promoted' as never)).toThrow(TypeError);
+      network.setCandidateStatus('bob', 'interviewed', { at: 10 });
+      expect(() => network.setCandidateStatus('bob', 'offered', { at: 5 })).toThrow(RangeError);
+    });
+
+    test('status changes fire events and can be undone', () => {
+      const changed = jest.fn();
+      network.on('statusChanged', changed);
+      network.setCandidateStatus('charlie', 'hired', { at: 10 });
+
+      expect(changed).toHaveBeenCalledWith({ candidate: 'charlie', from: 'referred', to: 'hired', at: 10 });
+      network.undo();
+      expect(network.getCandidateStatus('charlie')).toBe('referred');
+      expect(network.getDirectRefs('bob')).toEqual(['charlie', 'dave']);
+    });
+
+    test('hire-only reach, top referrers and influencers', () => {
+      network.setCandidateStatus('charlie', 'hired', { at: 10 });
+      network.setCandidateStatus('dave', 'hired', { at: 10 });
+      network.setCandidateStatus('erin', 'hired', { at: 10 });
+      network.setCandidateStatus('bob', 'rejected', { at: 10 });
+
+      expect(network.getTotalReach('alice')).toBe(4);
+      expect(network.getHiredReach('alice')).toBe(3);
+      expect(network.getHiredReach('bob')).toBe(2);
+      expect(network.getTopReferrersByHires(5)).toEqual([
+        { user: 'alice', totalHires: 3 },
+        { user: 'bob', totalHires: 2 }
+      ]);
+      expect(network.getUniqueHireInfluencers(2)).toEqual([{ user: 'alice', newHiresAdded: 3 }]);
+    });
+
+    test('conversion rates per referrer', () => {
+      network.setCandidateStatus('charlie', 'hired', { at: 10 });
+      network.setCandidateStatus('dave', 'rejected', { at: 10 });
+      network.setCandidateStatus('bob', 'hired', { at: 10 });
+
+      expect(network.getConversionRates()).toEqual([
+        { user: 'alice', referrals: 2, hired: 1, rejected: 0, inProgress: 1, conversionRate: 0.5 },
+        { user: 'bob', referrals: 2, hired: 1, rejected: 1, inProgress: 0, conversionRate: 0.5 }
+      ]);
+    });
+
+    test('statuses follow reassignments and survive json and snapshots', () => {
+      network.setCandidateStatus('charlie', 'interviewed', { at: 10 });
+      network.setCandidateStatus('charlie', 'hired', { at: 30 });
+      network.reassignReferrer('charlie', 'erin');
+      expect(network.getCandidateStatus('charlie')).toBe('hired');
+
+      const restored = ReferralNetwork.fromJSON(JSON.stringify(network.toJSON()));
+      expect(restored.getStatusHistory('charlie')).toEqual(network.getStatusHistory('charlie'));
+      expect(network.snapshotAt(20).getCandidateStatus('charlie')).toBe('interviewed');
+
+      const bad = network.toJSON();
+      bad.referrals[0].statusHistory = [{ status: 'hired', at: 5 }, { status: 'interviewed', at: 6 }];
+      expect(() => ReferralNetwork.fromJSON(bad)).toThrow('rejected: INVALID_TRANSITION');
+    });
+  });
+
+  describe('user attributes', () => {
+    let staff: ReferralNetwork<{ department: string; region: string; senior: boolean }>;
+
+    beforeEach(() => {
+      staff = new ReferralNetwork();
+      staff.addReferral('alice', 'bob', { timestamp: 1 });
+    });
+
+    test('merge in, undefined removes a key, anyone can have them', () => {
+      staff.setUserAttributes('alice', { department: 'eng', region: 'emea' });
+      staff.setUserAttributes('alice', { region: undefined, senior: true });
+      staff.setUserAttributes('zoe', { department: 'sales' }); // not referred yet
+
+      expect(staff.getUserAttributes('alice')).toEqual({ department: 'eng', senior: true });
+      expect(staff.getUserAttributes('bob')).toEqual({});
+      expect(staff.hasUser('zoe')).toBe(false);
+      expect(staff.getUsersWithAttribute('department', 'sales')).toEqual(['zoe']);
+      expect(staff.getAttributedUsers().sort()).toEqual(['alice', 'zoe']);
+      expect(staff.getKnownUsers().sort()).toEqual([...staff.getAllUsers(), 'zoe'].sort());
+    });
+
+    test('only scalar values', () => {
+      expect(() => staff.setUserAttributes('alice', { department: { name: 'eng' } as never })).toThrow(TypeError);
+      expect(() => staff.setUserAttributes('alice', { department: NaN as never })).toThrow(TypeError);
+      expect(staff.getUserAttributes('alice')).toEqual({});
+    });
+
+    test('undo, transactions and json round trips', () => {
+      staff.setUserAttributes('alice', { department: 'eng' });
+      staff.transaction(net => {
+        net.setUserAttributes('alice', { department: 'sales' });
+        net.addReferral('bob', 'bob');
+      });
+      expect(staff.getUserAttributes('alice')).toEqual({ department: 'eng' });
+
+      staff.undo();
+      expect(staff.getUserAttributes('alice')).toEqual({});
+      staff.redo();
+
+      const json = staff.toJSON();
+      expect(json.users).toEqual({ alice: { department: 'eng' } });
+      expect(ReferralNetwork.fromJSON(JSON.stringify(json)).getUserAttributes('alice')).toEqual({ department: 'eng' });
+      expect(json.version).toBe(2);
+      // early builds wrote users under version 1, those files still load
+      expect(ReferralNetwork.fromJSON({ ...json, version: 1 }).getUserAttributes('alice')).toEqual({ department: 'eng' });
+      expect(staff.snapshotAt(0).getUserAttributes('alice')).toEqual({ department: 'eng' });
+      expect(new ReferralNetwork().toJSON()).not.toHaveProperty('users');
+    });
+
+    test('merges fold attributes together, removal erases them', () => {
+      staff.addReferral('carol', 'dan', { timestamp: 2 });
+      staff.setUserAttributes('alice', { department: 'eng' });
+      staff.setUserAttributes('carol', { department: 'sales', region: 'apac' });
+
+      staff.mergeUsers('alice', 'carol');
+      expect(staff.getUserAttributes('alice')).toEqual({ department: 'eng', region: 'apac' });
+      expect(staff.getUserAttributes('carol')).toEqual({});
+
+      staff.setUserAttributes('zoe', { department: 'ops' });
+      expect(staff.removeUser('zoe')).toEqual({ status: 'ok' });
+      expect(staff.removeUser('alice')).toEqual({ status: 'ok' });
+      expect(staff.getAttributedUsers()).toEqual([]);
+    });
+  });
+
   describe('edge cases and weird stuff', () => {
     test('empty network queries dont crash', () => {
       expect(network.getDirectRefs('nobody')).toEqual([]);
@@ -0,0 +1,147 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { ReferrerRecommender } from '../src/analytics/ReferrerRecommender';
+import { createRng } from '../src/utils/random';
+
+type Staff = { department: string; office: string };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * people mostly refer someone from their own department, and busy
+ * referrers keep getting busier. office is noise
+ */
+function company(size: number, seed: number): ReferralNetwork<Staff> {
+  const rng = createRng(seed);
+  const network = new ReferralNetwork<Staff>();
+  const departments = ['eng', 'sales', 'ops', 'design', 'finance'];
+  const offices = ['nyc', 'sf', 'london'];
+  const users: string[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const user = `u${i}`;
+    const department = departments[Math.floor(rng() * departments.length)];
+    network.setUserAttributes(user, { department, office: offices[Math.floor(rng() * offices.length)] });
+
+    if (i >= 10) {
+      const sameTeam = users.filter(u => network.getUserAttributes(u).department === department);
+      const pool = rng() < 0.8 && sameTeam.length > 0 ? sameTeam : users;
+      const weights = pool.map(u => 1 + network.getDirectRefs(u).length);
+      let r = rng() * weights.reduce((a, b) => a + b, 0);
+      const referrer = pool.find((_, j) => (r -= weights[j]) <= 0) ?? pool[pool.length - 1];
+      network.addReferral(referrer, user, { timestamp: i * DAY });
+    }
+    users.push(user);
+  }
+
+  return network;
+}
+
+describe('ReferrerRecommender', () => {
+  let network: ReferralNetwork<Staff>;
+
+  beforeEach(() => {
+    // alice (eng) -> bob (eng), carl (eng)
+    // dana (sales) -> erin (sales)
+    // frank (eng, only refers sales people) -> gina (sales), hank (sales)
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob', { timestamp: 1 * DAY });
+    network.addReferral('alice', 'carl', { timestamp: 2 * DAY });
+    network.addReferral('dana', 'erin', { timestamp: 3 * DAY });
+    network.addReferral('frank', 'gina', { timestamp: 50 * DAY });
+    network.addReferral('frank', 'hank', { timestamp: 60 * DAY });
+
+    const department = { alice: 'eng', bob: 'eng', carl: 'eng', dana: 'sales', erin: 'sales', frank: 'eng', gina: 'sales', hank: 'sales' };
+    for (const [user, dept] of Object.entries(department)) {
+      network.setUserAttributes(user, { department: dept, office: 'nyc' });
+    }
+  });
+
+  describe('recommendReferrers', () => {
+    test('people who already referred someone like the candidate come first', () => {
+      const recommender = new ReferrerRecommender(network);
+      const picks = recommender.recommendReferrers('zoe', 3, { department: 'sales', office: 'nyc' });
+
+      // frank is in eng, but everyone he referred is sales - he beats the busier alice
+      expect(picks.map(s => s.user)).toEqual(['dana', 'frank', 'alice']);
+      expect(picks[0]).toMatchObject({ attributeMatch: 1, siblingMatch: 1 });
+      expect(picks[1]).toMatchObject({ attributeMatch: 0.5, siblingMatch: 1, activity: 1 });
+      expect(picks[2]).toMatchObject({ attributeMatch: 0.5, siblingMatch: 0.5, activity: 1 });
+    });
+
+    test('uses stored attributes and never suggests the candidate or their subtree', () => {
+      network.setUserAttributes('zoe', { department: 'eng' });
+      const recommender = new ReferrerRecommender(network);
+
+      expect(recommender.recommendReferrers('zoe', 1)[0].user).toBe('alice');
+      const forAlice = recommender.recommendReferrers('alice', 10).map(s => s.user);
+      expect(forAlice).not.toContain('alice');
+      expect(forAlice).not.toContain('bob');
+      expect(forAlice).not.toContain('carl');
+    });
+
+    test('weights can switch signals off', () => {
+      const activityOnly = new ReferrerRecommender(network, { weights: { attributes: 0, siblings: 0 } });
+      const picks = activityOnly.recommendReferrers('zoe', 3, { department: 'sales' });
+
+      expect(picks.map(s => s.user)).toEqual(['alice', 'frank', 'dana']); // ties by id
+      expect(() => new ReferrerRecommender(network, { weights: { siblings: -1 } })).toThrow(RangeError);
+    });
+  });
+
+  describe('predictNextReferrers', () => {
+    test('recent referrers and newcomers rank above old activity', () => {
+      const recommender = new ReferrerRecommender(network, { halfLifeDays: 10 });
+      const forecast = recommender.predictNextReferrers(3);
+
+      expect(forecast.map(f => f.user)).toEqual(['frank', 'hank', 'gina']);
+      expect(forecast[0]).toMatchObject({ lastActive: 60 * DAY });
+    });
+
+    test('as of an earlier date later referrals are ignored', () => {
+      const recommender = new ReferrerRecommender(network, { halfLifeDays: 10, newcomerWeight: 0 });
+      // alice's two referrals beat dana's one a day later
+      expect(recommender.predictNextReferrers(10, 10 * DAY).map(f => f.user)).toEqual(['alice', 'dana']);
+    });
+  });
+
+  describe('holdout evaluation', () => {
+    let big: ReferralNetwork<Staff>;
+
+    beforeAll(() => {
+      big = company(300, 3);
+    });
+
+    test('the full model beats ranking by activity alone', () => {
+      const full = new ReferrerRecommender(big).evaluateReferrers({ holdout: 0.2, k: 5, seed: 7 });
+      const activityOnly = new ReferrerRecommender(big, { weights: { attributes: 0, siblings: 0, activity: 1 } })
+        .evaluateReferrers({ holdout: 0.2, k: 5, seed: 7 });
+
+      expect(full.heldOut).toBe(58);
+      expect(full.precisionAtK).toBeCloseTo(full.recallAtK / 5);
+      expect(full.recallAtK).toBeGreaterThan(activityOnly.recallAtK);
+    });
+
+    test('same seed, same report - and the network is left alone', () => {
+      const before = big.toJSON();
+      const recommender = new ReferrerRecommender(big);
+
+      expect(recommender.evaluateReferrers({ seed: 3 })).toEqual(recommender.evaluateReferrers({ seed: 3 }));
+      expect(big.toJSON()).toEqual(before);
+    });
+
+    test('next referrers are checked against the newest edges', () => {
+      const report = new ReferrerRecommender(big, { halfLifeDays: 365 }).evaluateNextReferrers({ holdout: 0.2, k: 10 });
+
+      expect(report).toMatchObject({ heldOut: 58, k: 10 });
+      // far better than 10 picks out of ~250 possible referrers
+      expect(report.precisionAtK).toBeGreaterThanOrEqual(0.5);
+      expect(report.recallAtK).toBeGreaterThan(0);
+    });
+
+    test('rejects bad holdout settings', () => {
+      const recommender = new ReferrerRecommender(big);
+      expect(() => recommender.evaluateReferrers({ holdout: 1 })).toThrow(RangeError);
+      expect(() => recommender.evaluateNextReferrers({ k: 0 })).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { SegmentAnalytics } from '../src/analytics/SegmentAnalytics';
+
+type Staff = { department: string; region: string };
+
+describe('SegmentAnalytics', () => {
+  let network: ReferralNetwork<Staff>;
+  let segments: SegmentAnalytics<Staff>;
+
+  beforeEach(() => {
+    // eng: alice, bob, carol   sales: dave, erin   untagged: frank, gina
+    //
+    // alice -> bob -> dave -> frank
+    // alice -> erin
+    // carol -> gina
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob', { timestamp: 1 });
+    network.addReferral('bob', 'dave', { timestamp: 2 });
+    network.addReferral('dave', 'frank', { timestamp: 3 });
+    network.addReferral('alice', 'erin', { timestamp: 4 });
+    network.addReferral('carol', 'gina', { timestamp: 5 });
+
+    for (const user of ['alice', 'bob', 'carol']) network.setUserAttributes(user, { department: 'eng' });
+    for (const user of ['dave', 'erin']) network.setUserAttributes(user, { department: 'sales' });
+    network.setUserAttributes('hal', { department: 'sales' }); // hasn't referred anyone yet
+    network.setCandidateStatus('erin', 'hired', { at: 10 });
+
+    segments = new SegmentAnalytics(network);
+  });
+
+  test('rollups count nested reach once and include untagged users', () => {
+    expect(segments.getRollups('department')).toEqual([
+      // alice's 4 already includes bob's 2, plus carol's 1
+      { segment: 'eng', users: 3, referrers: 3, directReferrals: 4, hired: 1, reach: 5 },
+      { segment: 'sales', users: 3, referrers: 1, directReferrals: 1, hired: 0, reach: 1 },
+      { segment: null, users: 2, referrers: 0, directReferrals: 0, hired: 0, reach: 0 }
+    ]);
+  });
+
+  test('members and top referrers within a segment', () => {
+    expect(segments.getMembers('department', 'sales').sort()).toEqual(['dave', 'erin', 'hal']);
+    expect(segments.getMembers('department', null).sort()).toEqual(['frank', 'gina']);
+    expect(segments.segmentOf('frank', 'department')).toBeNull();
+
+    expect(segments.getTopReferrers('department', 'eng', 2)).toEqual([
+      { user: 'alice', totalReferrals: 4 },
+      { user: 'bob', totalReferrals: 2 }
+    ]);
+    expect(segments.getTopReferrers('department', 'sales', 5)).toEqual([{ user: 'dave', totalReferrals: 1 }]);
+  });
+
+  test('flow matrix between segments', () => {
+    expect(segments.getReferralFlow('department')).toEqual({
+      segments: ['eng', 'sales', null],
+      // eng brought in bob (eng), dave + erin (sales) and gina (untagged)
+      referrals: [
+        [1, 2, 1],
+        [0, 0, 1],
+        [0, 0, 0]
+      ],
+      // alice and bob both brought in sales people
+      referrers: [
+        [1, 2, 1],
+        [0, 0, 1],
+        [0, 0, 0]
+      ]
+    });
+  });
+
+  test('unique reach influencers picked from one segment', () => {
+    // alice covers bob, so carol is the second pick
+    expect(segments.getUniqueReachInfluencers('department', 'eng', 2)).toEqual([
+      { user: 'alice', newReachAdded: 4 },
+      { user: 'carol', newReachAdded: 1 }
+    ]);
+    expect(segments.getUniqueReachInfluencers('department', 'sales', 2)).toEqual([{ user: 'dave', newReachAdded: 1 }]);
+    expect(segments.getUniqueReachInfluencers('region', 'emea', 2)).toEqual([]);
+  });
+
+  test('follows the network as attributes change', () => {
+    network.setUserAttributes('gina', { department: 'sales' });
+    network.setUserAttributes('frank', { region: 'apac' });
+
+    const rows = segments.getRollups('department');
+    expect(rows.find(row => row.segment === 'sales')).toMatchObject({ users: 4 });
+    expect(rows.find(row => row.segment === null)).toMatchObject({ users: 1 });
+    expect(segments.getReferralFlow('region').segments).toEqual(['apac', null]);
+  });
+});
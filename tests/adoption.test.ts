@@ -0,0 +1,56 @@
+import { createAdoptionCurve, parseAdoptionSpec } from '../src/simulation/adoption';
+
+describe('adoption curves', () => {
+  test('linear caps at max', () => {
+    const curve = createAdoptionCurve({ type: 'linear', slope: 0.0001, max: 0.1 });
+    expect(curve(500)).toBeCloseTo(0.05);
+    expect(curve(5000)).toBe(0.1);
+  });
+
+  test('step jumps at the threshold', () => {
+    const curve = createAdoptionCurve({ type: 'step', threshold: 500, high: 0.08, low: 0.01 });
+    expect(curve(499)).toBe(0.01);
+    expect(curve(500)).toBe(0.08);
+  });
+
+  test('logistic is max / 2 at the midpoint', () => {
+    const curve = createAdoptionCurve({ type: 'logistic', max: 0.1, midpoint: 1000, steepness: 0.01 });
+    expect(curve(1000)).toBeCloseTo(0.05);
+    expect(curve(0)).toBeLessThan(0.001);
+    expect(curve(3000)).toBeCloseTo(0.1);
+  });
+
+  test('power law grows with diminishing returns and caps at max', () => {
+    const curve = createAdoptionCurve({ type: 'power', scale: 0.002, exponent: 0.5, max: 0.1 });
+    expect(curve(0)).toBe(0);
+    expect(curve(400)).toBeCloseTo(0.04);
+    expect(curve(10000)).toBe(0.1);
+    expect(parseAdoptionSpec('power:scale=0.002,exponent=0.5')).toEqual({ type: 'power', scale: 0.002, exponent: 0.5, max: undefined });
+  });
+
+  test('points interpolate and stay flat past the ends', () => {
+    const curve = createAdoptionCurve({ type: 'points', points: [[2000, 0.1], [0, 0], [500, 0.03]] });
+    expect(curve(-10)).toBe(0);
+    expect(curve(250)).toBeCloseTo(0.015);
+    expect(curve(1250)).toBeCloseTo(0.065);
+    expect(curve(9000)).toBe(0.1);
+  });
+
+  test('rejects curves that leave [0, 1] or go down', () => {
+    expect(() => createAdoptionCurve({ type: 'linear', slope: -1 })).toThrow(RangeError);
+    expect(() => createAdoptionCurve({ type: 'step', threshold: 1, high: 1.5 })).toThrow(RangeError);
+    expect(() => createAdoptionCurve({ type: 'step', threshold: 1, high: 0.1, low: 0.2 })).toThrow(RangeError);
+    expect(() => createAdoptionCurve({ type: 'points', points: [] })).toThrow(RangeError);
+    expect(() => createAdoptionCurve({ type: 'points', points: [[0, 0.5], [100, 0.2]] })).toThrow(RangeError);
+  });
+
+  test('parses the command line form', () => {
+    expect(parseAdoptionSpec('linear:slope=0.00005,max=0.1')).toEqual({ type: 'linear', slope: 0.00005, max: 0.1 });
+    expect(parseAdoptionSpec('step:threshold=500,high=0.08')).toEqual({ type: 'step', threshold: 500, high: 0.08, low: undefined });
+    expect(parseAdoptionSpec('points:0=0,500=0.03')).toEqual({ type: 'points', points: [[0, 0], [500, 0.03]] });
+
+    expect(() => parseAdoptionSpec('linear:max=0.1')).toThrow('needs slope');
+    expect(() => parseAdoptionSpec('linear:slope=abc')).toThrow(RangeError);
+    expect(() => parseAdoptionSpec('cubic:a=1')).toThrow('unknown adoption curve');
+  });
+});
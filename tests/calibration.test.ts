@@ -0,0 +1,136 @@
+import { AdoptionSpec, createAdoptionCurve } from '../src/simulation/adoption';
+import { CalibrationObservation, fitAdoptionCurve, fitAdoptionCurves, fitReferralProb } from '../src/simulation/calibration';
+import { NetworkSimulation } from '../src/simulation/NetworkSimulation';
+import { createRng, sampleBinomial } from '../src/utils/random';
+import { normalQuantile } from '../src/utils/optimize';
+
+// 13 bonus levels x 10 days, 400 people able to refer each day
+function campaign(spec: AdoptionSpec, seed: number): CalibrationObservation[] {
+  const rng = createRng(seed);
+  const curve = createAdoptionCurve(spec);
+  const observations: CalibrationObservation[] = [];
+  for (let bonus = 0; bonus <= 3000; bonus += 250) {
+    for (let day = 0; day < 10; day++) {
+      observations.push({ bonus, activeReferrers: 400, referrals: sampleBinomial(rng, 400, curve(bonus)) });
+    }
+  }
+  return observations;
+}
+
+function expectCovered(estimate: { interval: [number, number] | null }, truth: number): void {
+  expect(estimate.interval).not.toBeNull();
+  const [lo, hi] = estimate.interval!;
+  expect(lo).toBeLessThanOrEqual(truth);
+  expect(hi).toBeGreaterThanOrEqual(truth);
+}
+
+describe('calibration', () => {
+  describe('fitReferralProb', () => {
+    test('pools every day into one prob with an interval around it', () => {
+      const { prob, fit } = fitReferralProb([
+        { bonus: 500, activeReferrers: 1000, referrals: 50 },
+        { bonus: 500, activeReferrers: 1000, referrals: 70 }
+      ]);
+
+      expect(prob.value).toBeCloseTo(0.06);
+      expect(prob.interval![0]).toBeGreaterThan(0.05);
+      expect(prob.interval![1]).toBeLessThan(0.072);
+      expect(fit).toMatchObject({ observations: 2, degreesOfFreedom: 1 });
+      expect(fit.aic).toBeCloseTo(2 - 2 * fit.logLikelihood);
+    });
+
+    test('wider intervals for more confidence, none when nobody ever referred', () => {
+      const observations = [{ bonus: 0, activeReferrers: 500, referrals: 20 }];
+      const [lo90, hi90] = fitReferralProb(observations, { confidence: 0.9 }).prob.interval!;
+      const [lo99, hi99] = fitReferralProb(observations, { confidence: 0.99 }).prob.interval!;
+      expect(lo99).toBeLessThan(lo90);
+      expect(hi99).toBeGreaterThan(hi90);
+
+      expect(fitReferralProb([{ bonus: 0, activeReferrers: 500, referrals: 0 }]).prob).toEqual({ value: 0, interval: null });
+      expect(() => fitReferralProb(observations, { confidence: 1 })).toThrow(RangeError);
+    });
+
+    test('rejects observations that cannot happen', () => {
+      expect(() => fitReferralProb([])).toThrow(RangeError);
+      expect(() => fitReferralProb([{ bonus: 0, activeReferrers: 10, referrals: 11 }])).toThrow('observation 0');
+      expect(() => fitReferralProb([{ bonus: -1, activeReferrers: 10, referrals: 1 }])).toThrow(RangeError);
+      expect(() => fitReferralProb([{ bonus: 0, activeReferrers: 2.5, referrals: 1 }])).toThrow(RangeError);
+      expect(() => fitReferralProb([{ bonus: 0, activeReferrers: 0, referrals: 0 }])).toThrow('active referrers');
+    });
+  });
+
+  describe('fitAdoptionCurve', () => {
+    test('recovers a logistic curve inside its intervals', () => {
+      const fit = fitAdoptionCurve(campaign({ type: 'logistic', max: 0.1, midpoint: 1000, steepness: 0.004 }, 3), 'logistic');
+
+      expect(fit.converged).toBe(true);
+      expectCovered(fit.params.max, 0.1);
+      expectCovered(fit.params.midpoint, 1000);
+      expectCovered(fit.params.steepness, 0.004);
+      expect(fit.spec).toEqual({
+        type: 'logistic',
+        max: fit.params.max.value,
+        midpoint: fit.params.midpoint.value,
+        steepness: fit.params.steepness.value
+      });
+      // a model that fits leaves deviance around its degrees of freedom
+      expect(fit.fit.deviance / fit.fit.degreesOfFreedom).toBeLessThan(1.5);
+    });
+
+    test('recovers linear-capped and power curves', () => {
+      // the corner in linear-capped makes 95% intervals a bit optimistic, check 99% ones
+      const linear = fitAdoptionCurve(campaign({ type: 'linear', slope: 0.00004, max: 0.08 }, 4), 'linear', { confidence: 0.99 });
+      expectCovered(linear.params.slope, 0.00004);
+      expectCovered(linear.params.max, 0.08);
+
+      const power = fitAdoptionCurve(campaign({ type: 'power', scale: 0.002, exponent: 0.5 }, 5), 'power', { confidence: 0.99 });
+      expectCovered(power.params.scale, 0.002);
+      expectCovered(power.params.exponent, 0.5);
+    });
+
+    test('intervals are null when the data says nothing about a parameter', () => {
+      // every day at the same bonus - the cap is never seen
+      const flat = Array.from({ length: 10 }, () => ({ bonus: 1000, activeReferrers: 400, referrals: 20 }));
+      const fit = fitAdoptionCurve(flat, 'linear');
+
+      expect(fit.adoption(1000)).toBeCloseTo(0.05, 3);
+      expect(fit.params.max.interval).toBeNull();
+    });
+
+    test('unknown models are a TypeError', () => {
+      expect(() => fitAdoptionCurve(campaign({ type: 'linear', slope: 0.00004 }, 1), 'cubic' as never)).toThrow(TypeError);
+    });
+  });
+
+  describe('fitAdoptionCurves', () => {
+    test.each([
+      [{ type: 'logistic', max: 0.1, midpoint: 1000, steepness: 0.004 }, 6],
+      [{ type: 'linear', slope: 0.00004, max: 0.08 }, 7],
+      [{ type: 'power', scale: 0.002, exponent: 0.5 }, 8]
+    ] as Array<[AdoptionSpec, number]>)('AIC picks the curve the data came from (%o)', (spec, seed) => {
+      const fits = fitAdoptionCurves(campaign(spec, seed));
+
+      expect(fits.map(fit => fit.model)).toHaveLength(3);
+      expect(fits[0].model).toBe(spec.type);
+      expect(fits[0].fit.aic).toBeLessThan(fits[1].fit.aic);
+    });
+
+    test('the winning curve plugs straight into minBonusForTarget', () => {
+      const truth = createAdoptionCurve({ type: 'logistic', max: 0.1, midpoint: 1000, steepness: 0.004 });
+      const [best] = fitAdoptionCurves(campaign({ type: 'logistic', max: 0.1, midpoint: 1000, steepness: 0.004 }, 9));
+      const sim = new NetworkSimulation({ startingReferrers: 100, maxRefsPerUser: 10 });
+
+      const fitted = sim.minBonusForTarget(30, 300, best.adoption);
+      const actual = sim.minBonusForTarget(30, 300, truth);
+      expect(actual).not.toBeNull();
+      expect(Math.abs(fitted! - actual!)).toBeLessThanOrEqual(100);
+    });
+  });
+
+  test('normalQuantile matches the usual z values', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5);
+    expect(() => normalQuantile(1)).toThrow(RangeError);
+  });
+});
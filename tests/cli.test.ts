@@ -0,0 +1,213 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../src/cli/cli';
+
+describe('cli', () => {
+  let dir: string;
+  let networkFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'refnet-cli-'));
+    networkFile = join(dir, 'network.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function run(...argv: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(argv, {
+      stdout: text => { stdout += text; },
+      stderr: text => { stderr += text; }
+    });
+    return { code, stdout, stderr };
+  }
+
+  async function importCsv(rows: string) {
+    const file = join(dir, 'edges.csv');
+    writeFileSync(file, rows);
+    return run('import', file, '--network', networkFile);
+  }
+
+  describe('import', () => {
+    test('csv goes into the network file with rejections reported', async () => {
+      const result = await importCsv('referrer,candidate\nalice,bob\nbob,charlie\nbob,bob\n');
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('imported 2 referrals');
+      expect(result.stdout).toContain('SELF_REFERRAL');
+      expect(JSON.parse(readFileSync(networkFile, 'utf8')).referrals).toHaveLength(2);
+    });
+
+    test('json edge lists merge into an existing network', async () => {
+      await importCsv('alice,bob\n');
+      const file = join(dir, 'more.json');
+      writeFileSync(file, JSON.stringify([{ referrer: 'bob', candidate: 'charlie' }, { referrer: 'x', candidate: 'bob' }]));
+
+      const result = await run('import', file, '--network', networkFile, '--output', 'json');
+      const summary = JSON.parse(result.stdout);
+
+      expect(summary).toMatchObject({ imported: 1, rejectedCount: 1, users: 3 });
+      expect(summary.rejected[0]).toMatchObject({ line: 2, reason: { status: 'ALREADY_REFERRED' } });
+    });
+
+    test('json timestamps are parsed like csv ones, garbage is rejected', async () => {
+      const file = join(dir, 'edges.json');
+      writeFileSync(file, JSON.stringify([
+        { referrer: 'alice', candidate: 'bob', timestamp: '2024-05-01T00:00:00Z' },
+        { referrer: 'alice', candidate: 'carl', timestamp: 1700000000000 },
+        { referrer: 'alice', candidate: 'dana', timestamp: 'last tuesday' },
+        { referrer: 'alice', candidate: 'erin', timestamp: { at: 1 } }
+      ]));
+
+      const summary = JSON.parse((await run('import', file, '--network', networkFile, '--output', 'json')).stdout);
+      expect(summary).toMatchObject({ imported: 2, rejectedCount: 2 });
+      expect(summary.rejected.map((r: { line: number; reason: { status: string } }) => [r.line, r.reason.status]))
+        .toEqual([[3, 'MALFORMED'], [4, 'MALFORMED']]);
+
+      const saved = JSON.parse(readFileSync(networkFile, 'utf8')).referrals;
+      expect(saved.map((edge: { timestamp: unknown }) => edge.timestamp)).toEqual([1700000000000, Date.parse('2024-05-01T00:00:00Z')]);
+    });
+
+    test('a saved network keeps its pipeline and attributes', async () => {
+      const file = join(dir, 'saved.json');
+      writeFileSync(file, JSON.stringify({
+        version: 1,
+        referrals: [{ referrer: 'alice', candidate: 'bob', timestamp: 1, statusHistory: [{ status: 'hired', at: 5 }] }],
+        users: { alice: { department: 'eng' } }
+      }));
+
+      expect((await run('import', file, '--network', networkFile)).code).toBe(0);
+      const saved = JSON.parse(readFileSync(networkFile, 'utf8'));
+      expect(saved.referrals[0].statusHistory).toEqual([{ status: 'hired', at: 5 }]);
+      expect(saved.users).toEqual({ alice: { department: 'eng' } });
+
+      writeFileSync(file, JSON.stringify({ version: 1, referrals: [{ referrer: 'a', candidate: 'b', timestamp: 'x' }] }));
+      const broken = await run('import', file, '--network', networkFile);
+      expect(broken.code).toBe(1);
+      expect(broken.stderr).toContain('not a valid saved network');
+    });
+
+    test('broken input exits nonzero', async () => {
+      const file = join(dir, 'bad.json');
+      writeFileSync(file, '{ nope');
+
+      expect((await run('import', file, '--network', networkFile)).code).toBe(1);
+      expect((await run('import', join(dir, 'missing.csv'))).code).toBe(1);
+      expect((await run('import', join(dir, 'edges.txt'))).code).toBe(1);
+      writeFileSync(join(dir, 'edges.txt'), 'a,b\n');
+      expect((await run('import', join(dir, 'edges.txt'))).code).toBe(2);
+    });
+  });
+
+  describe('network commands', () => {
+    beforeEach(async () => {
+      await importCsv('alice,bob\nalice,charlie\nbob,david\nerin,frank\n');
+    });
+
+    test('top as a table and as json', async () => {
+      const table = await run('top', '--k', '2', '--network', networkFile);
+      expect(table.code).toBe(0);
+      expect(table.stdout.split('\n')[2]).toMatch(/^1\s+alice\s+3$/);
+
+      const json = await run('top', '--k', '2', '--network', networkFile, '--output', 'json');
+      expect(JSON.parse(json.stdout)).toEqual([
+        { user: 'alice', totalReferrals: 3 },
+        { user: 'bob', totalReferrals: 1 }
+      ]);
+    });
+
+    test('influencers and centrality', async () => {
+      const influencers = await run('influencers', '--k', '2', '--network', networkFile, '--output', 'json');
+      expect(JSON.parse(influencers.stdout)).toEqual([
+        { user: 'alice', newReachAdded: 3 },
+        { user: 'erin', newReachAdded: 1 }
+      ]);
+
+      const centrality = await run('centrality', '--k', '1', '--normalized', '--network', networkFile, '--output', 'json');
+      expect(JSON.parse(centrality.stdout)[0].user).toBe('bob');
+    });
+
+    test('reach for one user', async () => {
+      const result = await run('reach', 'bob', '--network', networkFile, '--output', 'json');
+      expect(JSON.parse(result.stdout)).toEqual({ user: 'bob', referrer: 'alice', depth: 1, directRefs: 1, totalReach: 1 });
+
+      expect((await run('reach', 'nobody', '--network', networkFile)).code).toBe(1);
+      expect((await run('reach', '--network', networkFile)).code).toBe(2);
+    });
+
+    test('missing network file is a runtime error', async () => {
+      const result = await run('top', '--network', join(dir, 'none.json'));
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('no network at');
+    });
+  });
+
+  describe('simulation commands', () => {
+    test('simulate prints one row per day', async () => {
+      const result = await run('simulate', '--prob', '0.1', '--days', '3', '--output', 'json');
+      const daily = JSON.parse(result.stdout);
+
+      expect(daily).toHaveLength(3);
+      expect(daily[0]).toEqual({ day: 1, total: expect.closeTo(10, 5) });
+    });
+
+    test('days-to-target, with and without a confidence level', async () => {
+      const plain = JSON.parse((await run('days-to-target', '--prob', '0.1', '--target', '200', '--output', 'json')).stdout);
+      expect(plain.days).toBeGreaterThan(0);
+
+      const stochastic = await run(
+        'days-to-target', '--prob', '0.1', '--target', '200',
+        '--confidence', '0.9', '--trials', '50', '--seed', '3', '--output', 'json'
+      );
+      expect(JSON.parse(stochastic.stdout).days).toBeGreaterThanOrEqual(plain.days);
+
+      const never = await run('days-to-target', '--prob', '0', '--target', '10');
+      expect(never.stdout).toBe('not reachable\n');
+    });
+
+    test('min-bonus takes an adoption curve spec', async () => {
+      const linear = await run('min-bonus', '--days', '30', '--target', '500', '--adoption', 'linear:slope=0.0001,max=0.1');
+      expect(linear.code).toBe(0);
+      expect(linear.stdout).toMatch(/^bonus: \d+\n$/);
+
+      const points = await run(
+        'min-bonus', '--days', '30', '--target', '500', '--adoption', 'points:0=0,1000=0.1', '--output', 'json'
+      );
+      expect(JSON.parse(points.stdout).bonus).toBe(JSON.parse(
+        (await run('min-bonus', '--days', '30', '--target', '500', '--adoption', 'linear:slope=0.0001', '--output', 'json')).stdout
+      ).bonus);
+
+      expect((await run('min-bonus', '--days', '30', '--target', '500', '--adoption', 'wavy:x=1')).code).toBe(2);
+    });
+  });
+
+  describe('usage errors exit 2', () => {
+    test.each([
+      [[]],
+      [['frobnicate']],
+      [['simulate', '--days', '5']],
+      [['simulate', '--prob', '2', '--days', '5']],
+      [['simulate', '--prob', 'lots', '--days', '5']],
+      [['simulate', '--prob', '0.1', '--days', '5', '--bogus', '1']],
+      [['top', '--output', 'xml']],
+      [['days-to-target', '--prob', '0.1', '--target', '5', '--seed', '1']],
+      [['days-to-target', '--prob', '0.1', '--target', '5', '--confidence', '0']],
+      [['min-bonus', '--days', '5', '--target', '5', '--adoption', 'linear:slope=0.001', '--confidence', '1.5']]
+    ])('%j', async argv => {
+      const result = await run(...argv);
+      expect(result.code).toBe(2);
+      expect(result.stdout).toBe('');
+      expect(result.stderr).not.toBe('');
+    });
+
+    test('help goes to stdout with exit 0', async () => {
+      const result = await run('help');
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('usage: refnet');
+    });
+  });
+});
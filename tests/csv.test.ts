@@ -0,0 +1,95 @@
+import { Readable } from 'stream';
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { fromCSV, importCSVStream, toCSV } from '../src/io/csv';
+
+describe('csv import/export', () => {
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob', { timestamp: Date.UTC(2024, 0, 1) });
+    network.addReferral('bob', 'charlie', { timestamp: Date.UTC(2024, 0, 2) });
+    network.addReferral('alice', 'o\'neil, "jr"', { timestamp: Date.UTC(2024, 0, 3) });
+  });
+
+  test('export writes a header and iso timestamps', () => {
+    const lines = toCSV(network).trim().split('\n');
+
+    expect(lines[0]).toBe('referrer,candidate,timestamp');
+    expect(lines[1]).toBe('alice,bob,2024-01-01T00:00:00.000Z');
+    expect(lines[3]).toBe('alice,"o\'neil, ""jr""",2024-01-03T00:00:00.000Z');
+    expect(toCSV(network, { header: false }).startsWith('alice,bob')).toBe(true);
+  });
+
+  test('round trips through csv', () => {
+    const { network: loaded, imported, rejectedCount } = fromCSV(toCSV(network));
+
+    expect(imported).toBe(3);
+    expect(rejectedCount).toBe(0);
+    expect(loaded.toJSON()).toEqual(network.toJSON());
+  });
+
+  test('reports rule-breaking and malformed rows without aborting', () => {
+    const csv = [
+      'alice,bob',
+      'carol,bob',
+      'bob,alice',
+      'dave,dave',
+      'just-one-field',
+      'eve,frank,not-a-date',
+      'eve,frank,1700000000000',
+      '"unterminated,frank'
+    ].join('\n');
+
+    const report = fromCSV(csv);
+
+    expect(report.imported).toBe(2);
+    expect(report.rejectedCount).toBe(6);
+    expect(report.rejected.map(r => [r.line, r.reason.status])).toEqual([
+      [2, 'ALREADY_REFERRED'],
+      [3, 'CYCLE'],
+      [4, 'SELF_REFERRAL'],
+      [5, 'MALFORMED'],
+      [6, 'MALFORMED'],
+      [8, 'MALFORMED']
+    ]);
+    expect(report.network.getReferralEdge('frank')!.timestamp).toBe(1700000000000);
+  });
+
+  test('caps rejection details but keeps counting', () => {
+    const csv = Array.from({ length: 10 }, () => 'x,x').join('\n');
+    const report = fromCSV(csv, { maxRejections: 3 });
+
+    expect(report.rejectedCount).toBe(10);
+    expect(report.rejected).toHaveLength(3);
+  });
+
+  test('a byte order mark before the header is not a referral', () => {
+    const report = fromCSV('\uFEFFreferrer,candidate\nalice,bob\n');
+
+    expect(report.imported).toBe(1);
+    expect(report.rejectedCount).toBe(0);
+    expect(report.network.getAllUsers().sort()).toEqual(['alice', 'bob']);
+  });
+
+  test('imports into an existing network', () => {
+    const report = fromCSV('charlie,dave\n', { network });
+
+    expect(report.network).toBe(network);
+    expect(network.getTotalReach('alice')).toBe(4);
+  });
+
+  test('streaming import matches the sync one', async () => {
+    const rows = ['referrer,candidate,timestamp'];
+    for (let i = 1; i < 2000; i++) {
+      rows.push(`u${Math.floor((i - 1) / 3)},u${i},${i}`);
+    }
+    rows.push('u5,u0'); // cycle
+
+    const report = await importCSVStream(Readable.from(rows.join('\r\n')));
+
+    expect(report.imported).toBe(1999);
+    expect(report.rejected[0]).toMatchObject({ line: 2001, reason: { status: 'CYCLE' } });
+    expect(report.network.getTotalReach('u0')).toBe(1999);
+  });
+});
@@ -0,0 +1,17 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+
+/**
+ * deterministic random forest for comparisons - each user u1..u(size-1) is
+ * referred by someone earlier, except a `rootShare` of them left as roots
+ */
+export function randomForest(size: number, seed: number, rootShare = 0.15): ReferralNetwork {
+  const network = new ReferralNetwork();
+  let state = seed;
+  const next = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648;
+
+  for (let i = 1; i < size; i++) {
+    if (next() < rootShare) continue;
+    network.addReferral(`u${Math.floor(next() * i)}`, `u${i}`);
+  }
+  return network;
+}
@@ -0,0 +1,113 @@
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { toDot, toGraphML, toMermaid } from '../src/io/graphExport';
+
+describe('graph export', () => {
+  let network: ReferralNetwork;
+
+  beforeEach(() => {
+    // alice -> bob -> charlie -> david; alice -> erin; frank -> gina
+    network = new ReferralNetwork();
+    network.addReferral('alice', 'bob');
+    network.addReferral('bob', 'charlie');
+    network.addReferral('charlie', 'david');
+    network.addReferral('alice', 'erin');
+    network.addReferral('frank', 'gina');
+  });
+
+  describe('DOT', () => {
+    test('writes every user and edge', () => {
+      const dot = toDot(network);
+
+      expect(dot.startsWith('digraph referrals {')).toBe(true);
+      for (const user of network.getAllUsers()) {
+        expect(dot).toContain(`"${user}" [label="${user}"];`);
+      }
+      expect(dot).toContain('"alice" -> "bob";');
+      expect(dot).toContain('"frank" -> "gina";');
+      expect(dot.match(/->/g)).toHaveLength(5);
+    });
+
+    test('highlights the full reach of a user', () => {
+      const dot = toDot(network, { highlight: 'bob' });
+
+      expect(dot).toMatch(/"bob" \[.*penwidth=3/);
+      expect(dot).toMatch(/"charlie" \[.*penwidth=2/);
+      expect(dot).toMatch(/"david" \[.*penwidth=2/);
+      expect(dot).not.toMatch(/"erin" \[.*penwidth/);
+      expect(dot).toContain('"charlie" -> "david" [color="#d62728", penwidth=2];');
+      expect(dot).toContain('"alice" -> "bob";');
+    });
+
+    test('escapes quotes in ids', () => {
+      network.addReferral('alice', 'o"neil');
+      expect(toDot(network)).toContain('"alice" -> "o\\"neil";');
+    });
+  });
+
+  describe('truncation', () => {
+    test('root keeps only that subtree', () => {
+      const dot = toDot(network, { root: 'bob' });
+
+      expect(dot).toContain('"bob" -> "charlie";');
+      expect(dot).not.toContain('alice');
+      expect(dot).not.toContain('frank');
+    });
+
+    test('maxDepth cuts levels and labels what was hidden', () => {
+      const dot = toDot(network, { maxDepth: 1 });
+
+      expect(dot).toContain('"bob" [label="bob (+2)"];');
+      expect(dot).not.toContain('charlie');
+      expect(dot).toContain('"erin" [label="erin"];');
+    });
+
+    test('rejects unknown roots and bad depths', () => {
+      expect(() => toDot(network, { root: 'nobody' })).toThrow('unknown user');
+      expect(() => toDot(network, { maxDepth: -1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('colouring', () => {
+    test('by depth gives each level its own colour', () => {
+      const graphml = toGraphML(network, { colorBy: 'depth' });
+      const colorOf = (user: string) =>
+        graphml.match(new RegExp(`<node id="${user}">[\\s\\S]*?<data key="color">(#[0-9a-f]{6})`))![1];
+
+      expect(colorOf('alice')).toBe(colorOf('frank'));
+      expect(colorOf('bob')).toBe(colorOf('gina'));
+      expect(colorOf('alice')).not.toBe(colorOf('bob'));
+    });
+
+    test('by centrality puts the busiest node at full heat', () => {
+      // bob (1 above x 2 below) and charlie (2 x 1) tie for the most paths
+      const graphml = toGraphML(network, { colorBy: 'centrality' });
+
+      expect(graphml).toMatch(/<node id="bob">[\s\S]*?<data key="color">#a63603/);
+      expect(graphml).toMatch(/<node id="charlie">[\s\S]*?<data key="color">#a63603/);
+      expect(graphml).toMatch(/<node id="david">[\s\S]*?<data key="color">#fff5eb/);
+      expect(graphml).toMatch(/<node id="charlie">[\s\S]*?<data key="centrality">2</);
+    });
+  });
+
+  describe('Mermaid', () => {
+    test('uses safe ids and styles highlighted nodes', () => {
+      const mermaid = toMermaid(network, { highlight: 'charlie' });
+      const lines = mermaid.trim().split('\n');
+
+      expect(lines[0]).toBe('flowchart TD');
+      expect(lines).toContain('  n0["alice"]');
+      expect(lines).toContain('  n0 --> n1');
+      expect(mermaid).toMatch(/style n\d+ stroke:#d62728,stroke-width:3px/);
+      expect(mermaid).toMatch(/linkStyle \d+ stroke:#d62728/);
+    });
+  });
+
+  test('GraphML is escaped XML', () => {
+    network.addReferral('alice', '<script>&');
+    const graphml = toGraphML(network);
+
+    expect(graphml).toContain('<node id="&lt;script&gt;&amp;">');
+    expect(graphml).toContain('source="alice" target="&lt;script&gt;&amp;"');
+    expect(graphml).not.toContain('<script>');
+  });
+});
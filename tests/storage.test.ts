@@ -0,0 +1,254 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ReferralNetwork } from '../src/models/ReferralNetwork';
+import { ReferralStore } from '../src/storage/ReferralStore';
+import { InMemoryStore } from '../src/storage/InMemoryStore';
+import { FileJournalStore } from '../src/storage/FileJournalStore';
+
+describe('storage', () => {
+  let dir: string;
+  const journals: FileJournalStore[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'refnet-store-'));
+  });
+
+  afterEach(() => {
+    journals.splice(0).forEach(j => j.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function openJournal(name = 'net.journal'): FileJournalStore {
+    const store = new FileJournalStore(join(dir, name));
+    journals.push(store);
+    return store;
+  }
+
+  function build(network: ReferralNetwork): void {
+    // alice -> bob -> charlie -> david, alice -> erin, frank -> gina
+    network.addReferral('alice', 'bob', { timestamp: 1 });
+    network.addReferral('bob', 'charlie', { timestamp: 2 });
+    network.addReferral('charlie', 'david', { timestamp: 3 });
+    network.addReferral('alice', 'erin', { timestamp: 4, metadata: { channel: 'email' } });
+    network.addReferral('frank', 'gina', { timestamp: 5 });
+  }
+
+  describe.each([
+    ['in-memory', () => new InMemoryStore() as ReferralStore],
+    ['file journal', () => openJournal() as ReferralStore]
+  ])('%s store', (_, makeStore) => {
+    test('analytics match the default network', () => {
+      const reference = new ReferralNetwork();
+      const network = new ReferralNetwork({ store: makeStore() });
+      build(reference);
+      build(network);
+
+      expect(network.getAllUsers()).toEqual(reference.getAllUsers());
+      expect(network.getFullReach('alice').sort()).toEqual(reference.getFullReach('alice').sort());
+      expect(network.getTopReferrers(3)).toEqual(reference.getTopReferrers(3));
+      expect(network.getUniqueReachInfluencers(2)).toEqual(reference.getUniqueReachInfluencers(2));
+      expect(network.getFlowCentralityRanking()).toEqual(reference.getFlowCentralityRanking());
+      expect(network.getRoots().sort()).toEqual(['alice', 'frank']);
+      expect(network.toJSON()).toEqual(reference.toJSON());
+    });
+
+    test('mutations go through the store', () => {
+      const store = makeStore();
+      const network = new ReferralNetwork({ store });
+      build(network);
+
+      network.reassignReferrer('charlie', 'frank');
+      network.removeUser('erin');
+
+      expect(store.getReferrer('charlie')).toBe('frank');
+      expect(store.hasUser('erin')).toBe(false);
+      expect(network.getTotalReach('frank')).toBe(3);
+      expect(network.getTotalReach('alice')).toBe(1);
+    });
+  });
+
+  test('a store write that throws leaves the reach index and history alone', () => {
+    class FlakyStore extends InMemoryStore {
+      failing = false;
+      putEdge(edge: Parameters<InMemoryStore['putEdge']>[0]): void {
+        if (this.failing) throw new Error('disk full');
+        super.putEdge(edge);
+      }
+      deleteEdge(candidate: string): void {
+        if (this.failing) throw new Error('disk full');
+        super.deleteEdge(candidate);
+      }
+    }
+    const store = new FlakyStore();
+    const network = new ReferralNetwork({ store });
+    build(network);
+    const top = network.getTopReferrers(10);
+    const users = network.getAllUsers();
+    const checkpoint = network.checkpoint();
+
+    store.failing = true;
+    expect(() => network.addReferral('erin', 'zoe')).toThrow('disk full');
+    expect(() => network.addReferral('yuri', 'zoe')).toThrow('disk full');
+    expect(() => network.removeReferral('charlie', 'david')).toThrow('disk full');
+    expect(() => network.reassignReferrer('charlie', 'frank')).toThrow('disk full');
+
+    expect(network.getTopReferrers(10)).toEqual(top);
+    expect(network.getAllUsers()).toEqual(users);
+    expect(network.getTotalReach('yuri')).toBe(0);
+    expect(network.getDepth('david')).toBe(3);
+    expect(network.checkpoint()).toBe(checkpoint);
+
+    store.failing = false;
+    network.addReferral('erin', 'zoe');
+    expect(network.getTotalReach('alice')).toBe(5);
+  });
+
+  describe('FileJournalStore', () => {
+    test('replays on startup, including deletes and reassignments', () => {
+      const first = new ReferralNetwork({ store: openJournal() });
+      build(first);
+      first.reassignReferrer('charlie', 'frank');
+      first.removeReferral('alice', 'erin');
+      journals[0].close();
+
+      const reopened = new ReferralNetwork({ store: openJournal() });
+
+      expect(reopened.toJSON()).toEqual(first.toJSON());
+      expect(reopened.getReferralEdge('charlie')).toMatchObject({ referrer: 'frank', timestamp: 2 });
+      // the reach index is rebuilt from what was replayed
+      expect(reopened.getTotalReach('frank')).toBe(3);
+      expect(reopened.getDepth('david')).toBe(2);
+      expect(reopened.getTopReferrers(1)).toEqual([{ user: 'frank', totalReferrals: 3 }]);
+    });
+
+    test('attributes are journaled and survive compaction', () => {
+      const store = openJournal();
+      const network = new ReferralNetwork({ store });
+      build(network);
+      network.setUserAttributes('alice', { department: 'eng' });
+      network.setUserAttributes('zoe', { department: 'sales' });
+      network.setUserAttributes('alice', { department: 'ops' });
+      network.removeUser('zoe');
+
+      expect(store.stats()).toEqual({ records: 9, edges: 5 });
+      store.compact();
+      expect(store.stats()).toEqual({ records: 6, edges: 5 });
+      store.close();
+
+      const reopened = new ReferralNetwork({ store: openJournal() });
+      expect(reopened.getUserAttributes('alice')).toEqual({ department: 'ops' });
+      expect(reopened.getAttributedUsers()).toEqual(['alice']);
+    });
+
+    test('compact keeps only live edges', () => {
+      const store = openJournal();
+      const network = new ReferralNetwork({ store });
+      build(network);
+      network.removeUser('charlie', 'reparent');
+      network.reassignReferrer('gina', 'alice');
+
+      // 5 puts, then each mutation's net effect: del charlie + put david, put gina
+      expect(store.stats()).toEqual({ records: 8, edges: 4 });
+      store.compact();
+      expect(store.stats()).toEqual({ records: 4, edges: 4 });
+
+      // still appendable after the rewrite
+      network.addReferral('gina', 'hank', { timestamp: 9 });
+      store.close();
+
+      const reopened = new ReferralNetwork({ store: openJournal() });
+      expect(reopened.toJSON()).toEqual(network.toJSON());
+      const lines = readFileSync(join(dir, 'net.journal'), 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(1 + 5);
+    });
+
+    test('a torn last line is dropped, earlier corruption is an error', () => {
+      const path = join(dir, 'net.journal');
+      build(new ReferralNetwork({ store: openJournal() }));
+      journals[0].close();
+
+      appendFileSync(path, '{"op":"put","edge":{"referrer":"x"');
+      const recovered = new ReferralNetwork({ store: openJournal() });
+      expect(recovered.getAllUsers()).toHaveLength(7);
+
+      // the torn bytes are gone, so new records land on their own line
+      recovered.addReferral('gina', 'hank');
+      journals[1].close();
+      expect(new ReferralNetwork({ store: openJournal() }).hasUser('hank')).toBe(true);
+
+      const lines = readFileSync(path, 'utf8').split('\n');
+      lines[2] = 'garbage';
+      writeFileSync(path, lines.join('\n'));
+      expect(() => openJournal()).toThrow('line 3 is corrupt');
+    });
+
+    test('transactions reach the journal whole or not at all', () => {
+      const path = join(dir, 'net.journal');
+      const store = openJournal();
+      const network = new ReferralNetwork({ store });
+      build(network);
+
+      // rolled back - nothing written, not even compensating records
+      network.transaction(tx => {
+        tx.addReferral('gina', 'hank');
+        tx.addReferral('hank', 'gina');
+      });
+      expect(store.stats()).toEqual({ records: 5, edges: 5 });
+
+      network.transaction(tx => {
+        tx.addReferral('gina', 'hank', { timestamp: 6 });
+        tx.addReferral('hank', 'ivan', { timestamp: 7 });
+        tx.setUserAttributes('ivan', { department: 'ops' });
+      });
+      store.close();
+
+      // crash before the commit marker made it out
+      const lines = readFileSync(path, 'utf8').trim().split('\n');
+      expect(lines[lines.length - 1]).toBe('{"op":"commit"}');
+      writeFileSync(path, lines.slice(0, -1).join('\n') + '\n');
+
+      const recovered = new ReferralNetwork({ store: openJournal() });
+      expect(recovered.hasUser('hank')).toBe(false);
+      expect(recovered.getAttributedUsers()).toEqual([]);
+      expect(recovered.toJSON().referrals).toHaveLength(5);
+
+      // the unterminated batch is cut off, later batches replay normally
+      recovered.transaction(tx => {
+        tx.addReferral('gina', 'jill', { timestamp: 8 });
+        tx.addReferral('jill', 'kurt', { timestamp: 9 });
+      });
+      journals[1].close();
+      const reopened = new ReferralNetwork({ store: openJournal() });
+      expect(reopened.getFullReach('gina').sort()).toEqual(['jill', 'kurt']);
+      expect(reopened.hasUser('ivan')).toBe(false);
+    });
+
+    test('refuses files that are not journals', () => {
+      const path = join(dir, 'network.json');
+      const json = JSON.stringify(new ReferralNetwork().toJSON());
+      writeFileSync(path, json);
+
+      expect(() => openJournal('network.json')).toThrow('not a referral journal');
+      expect(readFileSync(path, 'utf8')).toBe(json);
+    });
+
+    test('writes after close throw', () => {
+      const store = openJournal();
+      store.close();
+      expect(() => new ReferralNetwork({ store }).addReferral('a', 'b')).toThrow('closed');
+    });
+
+    test('a closed journal keeps the network as it was', () => {
+      const store = openJournal();
+      const network = new ReferralNetwork({ store });
+      build(network);
+      store.close();
+
+      expect(() => network.addReferral('gina', 'hank')).toThrow('closed');
+      expect(network.getAllUsers()).not.toContain('hank');
+      expect(network.getTotalReach('frank')).toBe(1);
+      expect(network.getTopReferrers(1)).toEqual([{ user: 'alice', totalReferrals: 4 }]);
+    });
+  });
+});